@@ -1,233 +1,1090 @@
 "use server"
 
+import {
+  clientAddress,
+  endSession,
+  getSessionUser,
+  rememberLocale,
+  requireSession,
+  startSession,
+  type Session,
+} from "@/lib/auth"
 import {
   getAppState,
   updateAppState,
+  withAppState,
+  withTransaction,
+  getVehicles,
   addHistoryEntry,
   removeHistoryEntry,
+  updateHistoryEntry,
+  findDriverByCode,
+  getLoginFailures,
+  addLoginFailure,
+  clearLoginFailures,
+  addDriver,
+  updateDriver,
+  addVehicle,
+  updateVehicle,
+  addGroup,
+  addInvite,
+  findInvite,
+  redeemInvite,
+  getDrivers,
+  getDriverLocale,
+  setDriverLocale,
+  getEntries,
+  getVehicleStates,
+  getMessageSettings,
+  setMessageSettings,
+  getNotifyDestination,
+  getNotifyDestinations,
+  setNotifyDestination,
+  addObligation,
+  getObligation,
+  removeObligations,
+  updateObligationPaid,
   type AppState,
+  type DriverId,
   type Entry,
-  type User,
+  type Charge,
+  type EnergyType,
+  type FillUp,
+  type NotifyDestination,
+  type Pricing,
+  type Sql,
+  type StateScope,
+  type VehicleId,
 } from "@/lib/database"
+import { creditKm, driverName, kmFor, sameKm, splitKm, totalKmOf, visibleDrivers } from "@/lib/drivers"
+import { isStale, STALE, StaleStateError, UserError, type Failure, type Stale } from "@/lib/errors"
+import { loadHistoryPage, type HistoryFilter, type HistoryPage } from "@/lib/history"
+import type { Locale } from "@/lib/i18n"
+import { nowId } from "@/lib/ids"
+import { messageSettingsOf, renderResetMessage, type MessageSettings, type ResetSummary } from "@/lib/messages"
+import { availableChannels, isPublicHost, notifyDrivers, type NotificationSettings } from "@/lib/notifiers"
+import { diffAppState, recomputeDeltas, replayEntries, type StateDrift } from "@/lib/replay"
+import {
+  accessCodeSchema,
+  chargeSchema,
+  driverIdSchema,
+  driverNameSchema,
+  effectiveAtSchema,
+  energyTypeSchema,
+  fillUpSchema,
+  groupNameSchema,
+  historyFilterSchema,
+  inviteCodeSchema,
+  localeSchema,
+  messageSettingsSchema,
+  newAccessCodeSchema,
+  notifyDestinationSchema,
+  parseInput,
+  paymentSchema,
+  pricingSchema,
+  readingSchema,
+  settingsSchema,
+  splitSchema,
+  statsRangeSchema,
+  timestampSchema,
+  vehicleIdSchema,
+  vehicleNameSchema,
+  versionSchema,
+} from "@/lib/schemas"
+import { priceProviderFromEnv } from "@/lib/fuel-prices"
+import { priceSegments, pricePerKmOf, segmentKmOf, totalCostOf } from "@/lib/pricing"
+import { applySettings, importFuelPrice } from "@/lib/settings"
+import type { StatementData } from "@/lib/statement"
+import type { StatsData } from "@/lib/stats"
+import {
+  chargeCost,
+  costShares,
+  cycleCharges,
+  paidByDriver,
+  remainingOf,
+  roundAgorot,
+  settleCosts,
+} from "@/lib/settlement"
+import { vehicleName } from "@/lib/vehicles"
+import { after } from "next/server"
 
-export async function loadAppState(): Promise<AppState> {
-  return await getAppState()
-}
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Every code check hashes against each driver, so guesses from one address are capped per window
+const LOGIN_WINDOW_MS = 15 * 60 * 1000
+const MAX_LOGIN_FAILURES = 10
 
-export async function saveAppState(state: AppState): Promise<void> {
-  await updateAppState(state)
+function newInviteCode() {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 12)
 }
 
-export async function addEntry(entry: Entry): Promise<void> {
-  await addHistoryEntry(entry)
+type CodeAttempt = { address: string; since: number }
+
+// Logging in, adding a driver and joining all test a code against every group's drivers, so
+// their failures share one budget per address. Throws once the budget is spent.
+async function startCodeAttempt(): Promise<CodeAttempt> {
+  const address = await clientAddress()
+  const since = Date.now() - LOGIN_WINDOW_MS
+  if ((await getLoginFailures(address, since)) >= MAX_LOGIN_FAILURES) {
+    throw new UserError("tooManyAttempts")
+  }
+  return { address, since }
 }
 
-export async function removeEntry(entryId: string): Promise<void> {
-  await removeHistoryEntry(entryId)
+// Recorded outside any transaction, so the rollback of the failed write keeps it
+async function failCodeAttempt(attempt: CodeAttempt): Promise<void> {
+  await addLoginFailure(attempt.address, attempt.since)
 }
 
-export async function addMileageEntry(sessionUser: User, reading: number, currentState: AppState): Promise<AppState> {
-  const OTHER: Record<User, User> = { Amit: "John", John: "Amit" }
+// Runs a write against the vehicle's locked database state. expectedVersion is the version
+// the user was looking at, so a write based on numbers they never saw is rolled back and
+// reported as STALE.
+async function mutateAppState<T>(
+  session: Session,
+  vehicleId: VehicleId,
+  expectedVersion: number,
+  fn: (state: AppState, db: Sql) => Promise<T>,
+): Promise<T | Stale> {
+  const id = parseInput(vehicleIdSchema, vehicleId)
+  const version = parseInput(versionSchema, expectedVersion)
 
-  function nowId() {
-    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  try {
+    return await withAppState({ groupId: session.groupId, vehicleId: id }, async (currentState, db) => {
+      if (currentState.vehicleId !== id) {
+        throw new UserError("unknownVehicle")
+      }
+      if (currentState.version !== version) {
+        throw new StaleStateError()
+      }
+      return await fn(currentState, db)
+    })
+  } catch (error) {
+    if (error instanceof StaleStateError) return STALE
+    throw error
   }
+}
 
-  let newState = { ...currentState }
-  let newEntry: Entry
-
-  // First ever reading
-  if (currentState.lastOdometer === null) {
-    newEntry = {
-      id: nowId(),
-      type: "init",
-      timestamp: Date.now(),
-      reading,
-      enteredBy: sessionUser,
-      note: "Initial reading set",
-    }
+// Production builds hide the message of errors thrown in server actions, so errors the user can
+// fix are returned as a Failure for the client to show in the user's language
+async function reportUserErrors<T>(fn: () => Promise<T>): Promise<T | Failure> {
+  try {
+    return await fn()
+  } catch (error) {
+    if (error instanceof UserError) return { error: error.key }
+    throw error
+  }
+}
+
+// The vehicle's whole entries log; state.history only holds the current cycle. Needed wherever
+// entries are replayed, since the first reading of a cycle is measured from the one before it.
+async function loadFullHistory(scope: StateScope, db?: Sql): Promise<Entry[]> {
+  return await getEntries(scope.groupId, { vehicleId: scope.vehicleId }, db)
+}
 
-    newState = {
-      ...currentState,
-      startingOdometer: reading,
-      lastOdometer: reading,
-      lastEnteredBy: sessionUser,
+// Writes back the entries whose reading, delta, driver or audit trail changed
+async function saveChangedEntries(before: Entry[], after: Entry[], scope: StateScope, db: Sql) {
+  const previous = new Map(before.map((e) => [e.id, e]))
+  for (const e of after) {
+    const old = previous.get(e.id)
+    if (
+      old &&
+      (old.reading !== e.reading ||
+        old.deltaKm !== e.deltaKm ||
+        old.attributedTo !== e.attributedTo ||
+        old.edits !== e.edits)
+    ) {
+      await updateHistoryEntry(e, scope, db)
     }
-  } else {
-    // Normal entry
-    const delta = reading - currentState.lastOdometer
+  }
+}
 
-    if (delta < 0) {
-      throw new Error("Mileage cannot decrease. Please check the value.")
+export async function login(code: string): Promise<DriverId | null | Failure> {
+  return await reportUserErrors(async () => {
+    const attempt = await startCodeAttempt()
+    const driver = await findDriverByCode(parseInput(accessCodeSchema, code))
+    if (!driver || !driver.active) {
+      await failCodeAttempt(attempt)
+      return null
+    }
+    await clearLoginFailures(attempt.address)
+    await startSession(driver.id)
+    // Drivers who never picked a language keep whatever this browser used last
+    const locale = await getDriverLocale(driver.id)
+    if (locale) {
+      await rememberLocale(locale)
     }
+    return driver.id
+  })
+}
 
-    if (delta === 0) {
-      newEntry = {
-        id: nowId(),
-        type: "entry",
-        timestamp: Date.now(),
-        reading,
-        deltaKm: 0,
-        attributedTo: OTHER[sessionUser],
-        enteredBy: sessionUser,
-        note: "No change in km",
-      }
-    } else {
-      const creditedUser = OTHER[sessionUser]
-      newEntry = {
+export async function logout(): Promise<void> {
+  await endSession()
+}
+
+export async function loadSessionUser(): Promise<DriverId | null> {
+  return await getSessionUser()
+}
+
+export async function loadAppState(vehicleId: VehicleId | null): Promise<AppState> {
+  const session = await requireSession()
+  return await getAppState(session.groupId, vehicleId)
+}
+
+// One page of the History sheet; pass the returned `before` to get the next one
+export async function loadHistory(
+  vehicleId: VehicleId,
+  filter: HistoryFilter,
+  before: number | null,
+): Promise<HistoryPage> {
+  const session = await requireSession()
+  const scope = { groupId: session.groupId, vehicleId: parseInput(vehicleIdSchema, vehicleId) }
+  const cursor = before === null ? null : parseInput(timestampSchema, before)
+  return await loadHistoryPage(scope, parseInput(historyFilterSchema, filter), cursor)
+}
+
+// The group's entries in a date range, for one vehicle or all of them when vehicleId is null
+export async function loadStats(
+  vehicleId: VehicleId | null,
+  from: number | null,
+  to: number | null,
+): Promise<StatsData> {
+  const session = await requireSession()
+  const range = parseInput(statsRangeSchema, { from, to })
+  const [entries, drivers, vehicles] = await Promise.all([
+    getEntries(session.groupId, {
+      vehicleId: vehicleId === null ? undefined : parseInput(vehicleIdSchema, vehicleId),
+      from: range.from ?? undefined,
+      to: range.to ?? undefined,
+    }),
+    getDrivers(session.groupId),
+    getVehicles(session.groupId),
+  ])
+  return { entries, drivers, vehicles }
+}
+
+// Everything a monthly statement is built from; from and to bound the month in the user's time zone
+export async function loadStatement(from: number, to: number): Promise<StatementData> {
+  const session = await requireSession()
+  const range = parseInput(statsRangeSchema, { from, to })
+  const [entries, priceChanges, states, drivers, vehicles] = await Promise.all([
+    getEntries(session.groupId, { from: range.from ?? undefined, to: range.to ?? undefined }),
+    getEntries(session.groupId, { types: ["price"] }),
+    getVehicleStates(session.groupId),
+    getDrivers(session.groupId),
+    getVehicles(session.groupId),
+  ])
+  const currentPrices = Object.fromEntries(states.map((s) => [s.vehicleId, s.pricePerKm]))
+  return { drivers, vehicles, entries, priceChanges, currentPrices }
+}
+
+// attributedTo is whoever drove since the last reading; the first ever reading credits nobody
+export async function addMileageEntry(
+  vehicleId: VehicleId,
+  reading: number,
+  attributedTo: DriverId,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const user = session.user
+    const km = parseInput(readingSchema, reading)
+    const driverId = parseInput(driverIdSchema, attributedTo)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      if (currentState.lastOdometer !== null && !currentState.drivers.some((d) => d.id === driverId && d.active)) {
+        throw new UserError("unknownDriver")
+      }
+
+      let newState = { ...currentState }
+      let newEntry: Entry
+
+      // First ever reading
+      if (currentState.lastOdometer === null) {
+        newEntry = {
+          id: nowId(),
+          type: "init",
+          timestamp: Date.now(),
+          reading: km,
+          enteredBy: user,
+          note: "Initial reading set",
+        }
+
+        newState = {
+          ...currentState,
+          startingOdometer: km,
+          lastOdometer: km,
+          lastEnteredBy: user,
+        }
+      } else {
+        // Normal entry
+        const delta = km - currentState.lastOdometer
+
+        if (delta < 0) {
+          throw new UserError("mileageDecreased")
+        }
+
+        if (delta === 0) {
+          newEntry = {
+            id: nowId(),
+            type: "entry",
+            timestamp: Date.now(),
+            reading: km,
+            deltaKm: 0,
+            attributedTo: driverId,
+            enteredBy: user,
+            note: "No change in km",
+          }
+        } else {
+          newEntry = {
+            id: nowId(),
+            type: "entry",
+            timestamp: Date.now(),
+            reading: km,
+            deltaKm: delta,
+            attributedTo: driverId,
+            enteredBy: user,
+          }
+
+          newState.kmBy = creditKm(newState.kmBy, { [driverId]: delta })
+        }
+
+        newState.lastOdometer = km
+        newState.lastEnteredBy = user
+      }
+
+      // Save to database
+      await updateAppState(newState, db)
+      await addHistoryEntry(newEntry, currentState, db)
+
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+// Km since the last reading are split between drivers by percentage
+export async function addSharedTrip(
+  vehicleId: VehicleId,
+  reading: number,
+  split: Record<DriverId, number>,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const km = parseInput(readingSchema, reading)
+    const percents = parseInput(splitSchema, split)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      if (currentState.lastOdometer === null) {
+        throw new UserError("setInitialReadingFirst")
+      }
+      if (Object.keys(percents).some((id) => !currentState.drivers.some((d) => d.id === id && d.active))) {
+        throw new UserError("unknownDriver")
+      }
+
+      const delta = km - currentState.lastOdometer
+      if (delta < 0) {
+        throw new UserError("mileageDecreased")
+      }
+
+      const newEntry: Entry = {
         id: nowId(),
-        type: "entry",
+        type: "shared",
         timestamp: Date.now(),
-        reading,
+        reading: km,
         deltaKm: delta,
-        attributedTo: creditedUser,
-        enteredBy: sessionUser,
+        split: percents,
+        enteredBy: session.user,
+      }
+      const newState = {
+        ...currentState,
+        kmBy: creditKm(currentState.kmBy, splitKm(delta, percents)),
+        lastOdometer: km,
+        lastEnteredBy: session.user,
       }
 
-      newState.kmBy = {
-        ...newState.kmBy,
-        [creditedUser]: newState.kmBy[creditedUser] + delta,
+      await updateAppState(newState, db)
+      await addHistoryEntry(newEntry, currentState, db)
+
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+export async function undoLastEntry(
+  vehicleId: VehicleId,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      // Find last entry; a reset can be undone until the next mileage entry or charging session
+      let lastEntry: Entry | null = null
+      for (let i = currentState.history.length - 1; i >= 0; i--) {
+        if (["entry", "shared", "charge", "reset"].includes(currentState.history[i].type)) {
+          lastEntry = currentState.history[i]
+          break
+        }
       }
-    }
 
-    newState.lastOdometer = reading
-    newState.lastEnteredBy = sessionUser
-  }
+      if (!lastEntry) {
+        throw new UserError("nothingToUndo")
+      }
 
-  // Save to database
-  await addEntry(newEntry)
-  await saveAppState(newState)
+      const resetEntry = lastEntry.type === "reset" ? lastEntry : null
+      if (resetEntry && currentState.ledger.some((o) => o.resetEntryId === resetEntry.id && o.paid > 0)) {
+        throw new UserError("paymentsAlreadyRecorded")
+      }
 
-  // Return updated state with new entry in history
-  return {
-    ...newState,
-    history: [...newState.history, newEntry],
-  }
+      // Rebuild balances from the remaining log instead of subtracting in place. Without the
+      // reset, the previous cycle's km and starting odometer come back as they were.
+      const newHistory = (await loadFullHistory(currentState, db)).filter((e) => e.id !== lastEntry!.id)
+      const newState = replayEntries(newHistory, currentState)
+
+      // Save to database
+      await updateAppState(newState, db)
+      await removeHistoryEntry(lastEntry.id, currentState, db)
+      if (resetEntry) {
+        await removeObligations(resetEntry.id, currentState.groupId, db)
+        await addHistoryEntry(
+          {
+            id: nowId(),
+            type: "revert",
+            timestamp: Date.now(),
+            enteredBy: session.user,
+            removed: { timestamp: resetEntry.timestamp },
+            fillUp: resetEntry.fillUp,
+            snapshot: resetEntry.snapshot,
+          },
+          currentState,
+          db,
+        )
+      }
+
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
 }
 
-export async function undoLastEntry(currentState: AppState): Promise<AppState> {
-  // Find last entry
-  let lastEntry: Entry | null = null
-  for (let i = currentState.history.length - 1; i >= 0; i--) {
-    if (currentState.history[i].type === "entry") {
-      lastEntry = currentState.history[i]
-      break
-    }
-  }
+// Later deltas and the current cycle are recalculated. Past reset snapshots are left as they
+// were settled.
+export async function editEntry(
+  vehicleId: VehicleId,
+  entryId: string,
+  reading: number,
+  attributedTo: DriverId,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const km = parseInput(readingSchema, reading)
+    const driverId = parseInput(driverIdSchema, attributedTo)
 
-  if (!lastEntry) {
-    throw new Error("No entry to undo")
-  }
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const history = await loadFullHistory(currentState, db)
+      const entry = history.find((e) => e.id === entryId)
+      if (!entry || !["init", "entry", "shared"].includes(entry.type)) {
+        throw new UserError("onlyMileageEditable")
+      }
+      if (entry.type === "entry" && !currentState.drivers.some((d) => d.id === driverId)) {
+        throw new UserError("unknownDriver")
+      }
 
-  // Remove from database
-  await removeEntry(lastEntry.id)
+      const edited: Entry = {
+        ...entry,
+        reading: km,
+        attributedTo: entry.type === "entry" ? driverId : entry.attributedTo,
+        edits: [
+          ...(entry.edits ?? []),
+          { editedAt: Date.now(), editedBy: session.user, reading: entry.reading, attributedTo: entry.attributedTo },
+        ],
+      }
+      const newHistory = recomputeDeltas(history.map((e) => (e.id === entry.id ? edited : e)))
 
-  // Update state
-  const newHistory = currentState.history.filter((e) => e.id !== lastEntry!.id)
+      await updateAppState(replayEntries(newHistory, currentState), db)
+      await saveChangedEntries(history, newHistory, currentState, db)
 
-  // Find prior reading to restore lastOdometer
-  let restoreTo: number | null = null
-  for (let i = newHistory.length - 1; i >= 0; i--) {
-    const e = newHistory[i]
-    if (e.reading != null) {
-      restoreTo = e.reading
-      break
-    }
-  }
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
 
-  const newKmBy = { ...currentState.kmBy }
-  if ((lastEntry.deltaKm ?? 0) > 0 && lastEntry.attributedTo) {
-    newKmBy[lastEntry.attributedTo] = Math.max(0, newKmBy[lastEntry.attributedTo] - (lastEntry.deltaKm ?? 0))
-  }
+export async function deleteEntry(
+  vehicleId: VehicleId,
+  entryId: string,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
 
-  const newState = {
-    ...currentState,
-    kmBy: newKmBy,
-    lastOdometer: restoreTo,
-    history: newHistory,
-  }
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const history = await loadFullHistory(currentState, db)
+      const entry = history.find((e) => e.id === entryId)
+      if (!entry || (entry.type !== "entry" && entry.type !== "shared")) {
+        throw new UserError("onlyMileageDeletable")
+      }
 
-  await saveAppState(newState)
-  return newState
+      const newHistory = recomputeDeltas(history.filter((e) => e.id !== entry.id))
+
+      await updateAppState(replayEntries(newHistory, currentState), db)
+      await saveChangedEntries(history, newHistory, currentState, db)
+      await removeHistoryEntry(entry.id, currentState, db)
+      await addHistoryEntry(
+        {
+          id: nowId(),
+          type: "removal",
+          timestamp: Date.now(),
+          enteredBy: session.user,
+          removed: {
+            timestamp: entry.timestamp,
+            reading: entry.reading,
+            creditedTo: entry.split ? Object.keys(entry.split) : entry.attributedTo ? [entry.attributedTo] : [],
+          },
+        },
+        currentState,
+        db,
+      )
+
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
 }
 
-export async function resetAndGetMessage(currentState: AppState): Promise<{ message: string; newState: AppState }> {
-  function formatCurrency(n: number) {
-    try {
-      return new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS", maximumFractionDigits: 2 }).format(n)
-    } catch {
-      return `₪${n.toFixed(2)}`
-    }
-  }
+// Settles the cycle: the fill-up receipt (none for electric vehicles) and every charging
+// session since the last reset are split by km in one go.
+export async function resetAndGetMessage(
+  vehicleId: VehicleId,
+  fillUp: FillUp | null,
+  expectedVersion: number,
+): Promise<{ message: string; newState: AppState; notified: boolean } | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const receipt = fillUp === null ? null : parseInput(fillUpSchema, fillUp)
 
-  const totalKm = currentState.kmBy.Amit + currentState.kmBy.John
-  const totalAmount = totalKm * currentState.pricePerKm
-  const amounts = {
-    Amit: currentState.kmBy.Amit * currentState.pricePerKm,
-    John: currentState.kmBy.John * currentState.pricePerKm,
-  }
+    const result = await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const energy = currentState.vehicles.find((v) => v.id === currentState.vehicleId)?.energy ?? "fuel"
+      const charges = cycleCharges(currentState.history)
+      if (energy === "fuel" && !receipt) {
+        throw new UserError("enterReceipt")
+      }
+      if (energy === "electric" && receipt) {
+        throw new UserError("electricNoFuel")
+      }
+      if (!receipt && charges.length === 0) {
+        throw new UserError("nothingToSettle")
+      }
+      if (receipt && !currentState.drivers.some((d) => d.id === receipt.paidBy && d.active)) {
+        throw new UserError("unknownDriver")
+      }
 
-  const ts = Date.now()
-  const dateStr = new Date(ts).toLocaleString()
-  const message = [
-    `Fuel split reset (${dateStr})`,
-    `Price per km: ${formatCurrency(currentState.pricePerKm)}`,
-    `Totals since last reset:`,
-    `- Amit: ${currentState.kmBy.Amit} km => ${formatCurrency(amounts.Amit)}`,
-    `- John: ${currentState.kmBy.John} km => ${formatCurrency(amounts.John)}`,
-    `Total: ${totalKm} km => ${formatCurrency(totalAmount)}`,
-    currentState.lastOdometer != null ? `Odometer: ${currentState.lastOdometer} km` : undefined,
-    `Please settle accordingly.`,
-  ]
-    .filter(Boolean)
-    .join("\n")
-
-  // Create reset entry
-  const resetEntry: Entry = {
-    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    type: "reset",
-    timestamp: ts,
-    note: "Reset & share",
-    snapshot: {
-      kmBy: { ...currentState.kmBy },
-      pricePerKm: currentState.pricePerKm,
-      totalKm,
-      totalAmount,
-    },
-  }
+      const totalKm = totalKmOf(currentState.kmBy)
+      const segments = priceSegments(currentState.history, currentState.pricePerKm, currentState.startingOdometer)
+      if (!sameKm(segmentKmOf(segments), totalKm)) {
+        throw new UserError("kmMismatch")
+      }
+      const totalAmount = totalCostOf(segments)
+      const paid = paidByDriver(receipt, charges)
+      const totalPaid = roundAgorot(Object.values(paid).reduce((sum, amount) => sum + amount, 0))
+      const charged = roundAgorot(charges.reduce((sum, c) => sum + chargeCost(c), 0))
+      const shares = costShares(currentState.kmBy, paid)
+      const transfers = settleCosts(shares, paid)
+      const nameOf = (id: DriverId) => driverName(currentState.drivers, id)
 
-  const newState = {
-    ...currentState,
-    startingOdometer: currentState.lastOdometer ?? currentState.startingOdometer,
-    kmBy: { Amit: 0, John: 0 },
-    history: [...currentState.history, resetEntry],
-  }
+      const ts = Date.now()
+      const summary: ResetSummary = {
+        vehicle: vehicleName(currentState.vehicles, currentState.vehicleId),
+        timestamp: ts,
+        fillUp: receipt && {
+          liters: receipt.liters,
+          amountPaid: receipt.amountPaid,
+          station: receipt.station,
+          payer: nameOf(receipt.paidBy),
+        },
+        charging:
+          charges.length > 0
+            ? { sessions: charges.length, kWh: charges.reduce((sum, c) => sum + c.kWh, 0), amount: charged }
+            : null,
+        drivers: visibleDrivers(currentState.drivers, currentState.kmBy).map((d) => ({
+          name: d.name,
+          km: kmFor(currentState.kmBy, d.id),
+          share: shares[d.id] ?? 0,
+        })),
+        totalKm,
+        total: totalPaid,
+        odometer: currentState.lastOdometer,
+        transfers: transfers.map((t) => ({ from: nameOf(t.from), to: nameOf(t.to), amount: t.amount })),
+      }
+      const message = renderResetMessage(summary, messageSettingsOf(await getMessageSettings(currentState.groupId, db)))
 
-  // Save to database
-  await addEntry(resetEntry)
-  await saveAppState(newState)
+      // Create reset entry
+      const resetEntry: Entry = {
+        id: nowId(),
+        type: "reset",
+        timestamp: ts,
+        enteredBy: session.user,
+        note: "Reset & share",
+        fillUp: receipt ?? undefined,
+        snapshot: {
+          kmBy: { ...currentState.kmBy },
+          pricePerKm: currentState.pricePerKm,
+          totalKm,
+          totalAmount,
+          charged: charges.length > 0 ? charged : undefined,
+          shares,
+          transfers,
+          segments,
+        },
+      }
+
+      const newState = {
+        ...currentState,
+        startingOdometer: currentState.lastOdometer ?? currentState.startingOdometer,
+        kmBy: {},
+      }
 
-  return { message, newState }
+      // Save to database
+      await updateAppState(newState, db)
+      await addHistoryEntry(resetEntry, currentState, db)
+      for (const t of transfers) {
+        await addObligation(
+          {
+            id: nowId(),
+            vehicleId: currentState.vehicleId,
+            resetEntryId: resetEntry.id,
+            ...t,
+            paid: 0,
+            createdAt: ts,
+          },
+          currentState.groupId,
+          db,
+        )
+      }
+
+      return { message, newState: await getAppState(currentState.groupId, currentState.vehicleId, db) }
+    })
+    if (isStale(result)) return result
+
+    // Sent once the reset is committed and the response is out; failures are only logged
+    const destinations = await getNotifyDestinations(session.groupId)
+    after(() =>
+      notifyDrivers(destinations, {
+        subject: result.message.split("\n")[0],
+        text: result.message,
+      }),
+    )
+    return { ...result, notified: Object.keys(destinations).length > 0 }
+  })
+}
+
+export async function logCharge(
+  vehicleId: VehicleId,
+  charge: Charge,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const chargeSession = parseInput(chargeSchema, charge)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      if (currentState.vehicles.find((v) => v.id === currentState.vehicleId)?.energy === "fuel") {
+        throw new UserError("vehicleDoesNotCharge")
+      }
+      if (!currentState.drivers.some((d) => d.id === chargeSession.paidBy && d.active)) {
+        throw new UserError("unknownDriver")
+      }
+
+      await addHistoryEntry(
+        { id: nowId(), type: "charge", timestamp: Date.now(), enteredBy: session.user, charge: chargeSession },
+        currentState,
+        db,
+      )
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+// Payments may settle an obligation from another vehicle's cycle; they are logged there, and
+// the vehicle being viewed is reloaded afterwards.
+export async function recordPayment(
+  vehicleId: VehicleId,
+  obligationId: string,
+  amount: number,
+): Promise<AppState | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const id = parseInput(vehicleIdSchema, vehicleId)
+    const payment = parseInput(paymentSchema, { obligationId, amount })
+
+    const obligation = await getObligation(session.groupId, payment.obligationId)
+    if (!obligation) {
+      throw new UserError("unknownObligation")
+    }
+
+    const scope = { groupId: session.groupId, vehicleId: obligation.vehicleId }
+    return await withAppState(scope, async (obligationState, db) => {
+      // Re-read under the lock so two payments can't both fit the same remainder
+      const current = await getObligation(session.groupId, obligation.id, db)
+      if (!current) {
+        throw new UserError("unknownObligation")
+      }
+      if (roundAgorot(payment.amount) > remainingOf(current)) {
+        throw new UserError("paymentTooLarge")
+      }
+
+      const entry: Entry = {
+        id: nowId(),
+        type: "payment",
+        timestamp: Date.now(),
+        enteredBy: session.user,
+        payment: { obligationId: current.id, from: current.from, to: current.to, amount: roundAgorot(payment.amount) },
+      }
+
+      await addHistoryEntry(entry, obligationState, db)
+      await updateObligationPaid({ ...current, paid: roundAgorot(current.paid + payment.amount) }, session.groupId, db)
+      await updateAppState(obligationState, db)
+
+      return await getAppState(session.groupId, id, db)
+    })
+  })
 }
 
+// A price change is logged as a "price" entry. effectiveAt can backdate it within the current
+// cycle, so km entered since then are repriced; null means from now on. In consumption mode
+// the price per km is derived from the pump price and the typed-in price is ignored.
 export async function updateSettings(
+  vehicleId: VehicleId,
   pricePerKm: number,
   startingOdometer: number,
-  currentState: AppState,
-): Promise<AppState> {
-  if (pricePerKm <= 0) {
-    throw new Error("Price per km must be greater than 0.")
-  }
-  if (startingOdometer < 0) {
-    throw new Error("Starting mileage must be >= 0.")
-  }
+  pricing: Pricing,
+  effectiveAt: number | null,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const newPricing = parseInput(pricingSchema, pricing)
+    const settings = parseInput(settingsSchema, { pricePerKm: pricePerKmOf(newPricing, pricePerKm), startingOdometer })
+    const effective = parseInput(effectiveAtSchema, effectiveAt) ?? Date.now()
 
-  const newState = {
-    ...currentState,
-    pricePerKm,
-    startingOdometer: currentState.lastOdometer == null ? startingOdometer : currentState.startingOdometer,
-  }
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      await applySettings(
+        currentState,
+        { ...settings, pricing: newPricing, effectiveAt: effective, enteredBy: session.user },
+        db,
+      )
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+// Pulls the pump price from the configured price table now instead of waiting for the schedule
+export async function importFuelPrices(vehicleId: VehicleId): Promise<AppState | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const id = parseInput(vehicleIdSchema, vehicleId)
+    const provider = priceProviderFromEnv()
+    if (!provider) {
+      throw new UserError("noPriceSource")
+    }
+
+    await importFuelPrice(provider, session.groupId)
+    return await getAppState(session.groupId, id)
+  })
+}
+
+export async function checkConsistency(vehicleId: VehicleId): Promise<StateDrift[] | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const stored = await getAppState(session.groupId, parseInput(vehicleIdSchema, vehicleId))
+    return diffAppState(stored, replayEntries(await loadFullHistory(stored), stored))
+  })
+}
+
+export async function repairAppState(
+  vehicleId: VehicleId,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      await updateAppState(replayEntries(await loadFullHistory(currentState, db), currentState), db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+export async function createDriver(
+  vehicleId: VehicleId,
+  name: string,
+  code: string,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const driverName = parseInput(driverNameSchema, name)
+    const accessCode = parseInput(newAccessCodeSchema, code)
+    const attempt = await startCodeAttempt()
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      // Codes identify the driver at login, so they must be unique. A taken name gets the same
+      // answer as a taken code, and both count as failed attempts, so codes can't be probed.
+      if (
+        currentState.drivers.some((d) => d.name.toLowerCase() === driverName.toLowerCase()) ||
+        (await findDriverByCode(accessCode, db))
+      ) {
+        await failCodeAttempt(attempt)
+        throw new UserError("driverNotAdded")
+      }
+
+      await addDriver({ id: nowId(), groupId: session.groupId, name: driverName, active: true }, accessCode, db)
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+export async function renameDriver(
+  vehicleId: VehicleId,
+  driverId: DriverId,
+  name: string,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const id = parseInput(driverIdSchema, driverId)
+    const driverName = parseInput(driverNameSchema, name)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const driver = currentState.drivers.find((d) => d.id === id)
+      if (!driver) {
+        throw new UserError("unknownDriver")
+      }
+      if (currentState.drivers.some((d) => d.id !== id && d.name.toLowerCase() === driverName.toLowerCase())) {
+        throw new UserError("driverNameTaken")
+      }
+
+      await updateDriver({ ...driver, name: driverName }, db)
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+export async function setDriverActive(
+  vehicleId: VehicleId,
+  driverId: DriverId,
+  active: boolean,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const id = parseInput(driverIdSchema, driverId)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const driver = currentState.drivers.find((d) => d.id === id)
+      if (!driver) {
+        throw new UserError("unknownDriver")
+      }
+      if (!active && id === session.user) {
+        throw new UserError("cannotDeactivateSelf")
+      }
+
+      // Deactivated drivers keep their history and current km, they just can no longer log in
+      await updateDriver({ ...driver, active }, db)
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+export async function loadMessageSettings(): Promise<MessageSettings> {
+  const session = await requireSession()
+  return messageSettingsOf(await getMessageSettings(session.groupId))
+}
+
+export async function saveMessageSettings(settings: MessageSettings): Promise<void | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    await setMessageSettings(session.groupId, parseInput(messageSettingsSchema, settings))
+  })
+}
+
+export async function setLanguage(locale: Locale): Promise<void | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const parsed = parseInput(localeSchema, locale)
+    await setDriverLocale(session.user, session.groupId, parsed)
+    await rememberLocale(parsed)
+  })
+}
+
+export async function loadNotificationSettings(): Promise<NotificationSettings> {
+  const session = await requireSession()
+  return { channels: availableChannels(), destination: await getNotifyDestination(session.user) }
+}
+
+// Where the signed-in driver gets reset summaries; null goes back to sharing by hand
+export async function saveNotifyDestination(destination: NotifyDestination | null): Promise<void | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const parsed = destination === null ? null : parseInput(notifyDestinationSchema, destination)
+    if (parsed && !availableChannels().includes(parsed.channel)) {
+      throw new UserError("channelNotConfigured")
+    }
+    if (parsed?.channel === "webhook" && !(await isPublicHost(new URL(parsed.to).hostname))) {
+      throw new UserError("webhookNotPublic")
+    }
+    await setNotifyDestination(session.user, session.groupId, parsed)
+  })
+}
+
+export async function sendTestNotification(): Promise<void | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const destination = await getNotifyDestination(session.user)
+    if (!destination) {
+      throw new UserError("noDestination")
+    }
+    const [delivery] = await notifyDrivers(
+      { [session.user]: destination },
+      { subject: "Fuel split test", text: "Reset summaries will be sent here." },
+    )
+    if (delivery.error) {
+      console.error("Error sending test notification:", delivery.error)
+      throw new UserError("testNotSent")
+    }
+  })
+}
+
+// New vehicles run on fuel until their energy type is changed in settings
+export async function createVehicle(name: string): Promise<AppState | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const newVehicleName = parseInput(vehicleNameSchema, name)
+
+    return await withTransaction(async (db) => {
+      const vehicles = await getVehicles(session.groupId, db)
+      if (vehicles.some((v) => v.name.toLowerCase() === newVehicleName.toLowerCase())) {
+        throw new UserError("vehicleNameTaken")
+      }
+
+      // Start from the first car's price; it can be changed in settings right away
+      const template = await getAppState(session.groupId, null, db)
+      const id = nowId()
+      await addVehicle({ id, groupId: session.groupId, name: newVehicleName, energy: "fuel" }, template.pricePerKm, db)
+      return await getAppState(session.groupId, id, db)
+    })
+  })
+}
+
+export async function renameVehicle(
+  vehicleId: VehicleId,
+  name: string,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const newVehicleName = parseInput(vehicleNameSchema, name)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const taken = currentState.vehicles.some(
+        (v) => v.id !== currentState.vehicleId && v.name.toLowerCase() === newVehicleName.toLowerCase(),
+      )
+      if (taken) {
+        throw new UserError("vehicleNameTaken")
+      }
+
+      const vehicle = currentState.vehicles.find((v) => v.id === currentState.vehicleId)!
+      await updateVehicle({ ...vehicle, name: newVehicleName }, db)
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+// Charging sessions already logged stay in the cycle and are settled at the next reset
+export async function setVehicleEnergy(
+  vehicleId: VehicleId,
+  energy: EnergyType,
+  expectedVersion: number,
+): Promise<AppState | Stale | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const energyType = parseInput(energyTypeSchema, energy)
+
+    return await mutateAppState(session, vehicleId, expectedVersion, async (currentState, db) => {
+      const vehicle = currentState.vehicles.find((v) => v.id === currentState.vehicleId)!
+      await updateVehicle({ ...vehicle, energy: energyType }, db)
+      await updateAppState(currentState, db)
+      return await getAppState(currentState.groupId, currentState.vehicleId, db)
+    })
+  })
+}
+
+// Invite someone into the session user's group; returns the invite code
+export async function createInvite(): Promise<string | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const code = newInviteCode()
+    await addInvite({ code, groupId: session.groupId, expiresAt: Date.now() + INVITE_TTL_MS }, session.user)
+    return code
+  })
+}
+
+// Sets up a separate household with one vehicle; whoever redeems the invite becomes its first driver
+export async function createGroupInvite(groupName: string): Promise<string | Failure> {
+  return await reportUserErrors(async () => {
+    const session = await requireSession()
+    const name = parseInput(groupNameSchema, groupName)
+
+    return await withTransaction(async (db) => {
+      const template = await getAppState(session.groupId, null, db)
+      const groupId = nowId()
+      const code = newInviteCode()
+
+      await addGroup(groupId, name, db)
+      await addVehicle({ id: nowId(), groupId, name: "Car", energy: "fuel" }, template.pricePerKm, db)
+      await addInvite({ code, groupId, expiresAt: Date.now() + INVITE_TTL_MS }, session.user, db)
+      return code
+    })
+  })
+}
+
+export async function joinGroup(inviteCode: string, name: string, code: string): Promise<DriverId | Failure> {
+  return await reportUserErrors(async () => {
+    const invite = parseInput(inviteCodeSchema, inviteCode)
+    const driverName = parseInput(driverNameSchema, name)
+    const accessCode = parseInput(newAccessCodeSchema, code)
+    const attempt = await startCodeAttempt()
+
+    const driverId = await withTransaction(async (db) => {
+      const found = await findInvite(invite, db)
+      if (!found) {
+        await failCodeAttempt(attempt)
+        throw new UserError("inviteExpired")
+      }
+
+      // Same answer and the same cost for a taken name as for a taken code, as in createDriver
+      const drivers = await getDrivers(found.groupId, db)
+      if (
+        drivers.some((d) => d.name.toLowerCase() === driverName.toLowerCase()) ||
+        (await findDriverByCode(accessCode, db))
+      ) {
+        await failCodeAttempt(attempt)
+        throw new UserError("driverNotAdded")
+      }
+
+      const id = nowId()
+      await addDriver({ id, groupId: found.groupId, name: driverName, active: true }, accessCode, db)
+      // Redeeming is the atomic check: a concurrent join with the same invite gets null here
+      if (!(await redeemInvite(invite, id, db))) {
+        throw new UserError("inviteExpired")
+      }
+      return id
+    })
 
-  await saveAppState(newState)
-  return newState
+    await startSession(driverId)
+    return driverId
+  })
 }
@@ -0,0 +1,107 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { isFailure } from "@/lib/errors"
+import { ArrowLeft, DatabaseBackup, Download, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+export default function AdminPage() {
+  const router = useRouter()
+  const { t } = useI18n()
+  const [file, setFile] = useState<File | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  async function handleRestore() {
+    if (!file) return
+    if (!window.confirm(t.admin.confirmRestore(file.name))) return
+
+    try {
+      setRestoring(true)
+      const response = await fetch("/api/backup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      })
+      const result = await response.json()
+      if (isFailure(result)) {
+        alert(t.serverErrors[result.error])
+        return
+      }
+      alert(t.admin.restored(result.vehicles, result.entries))
+      router.replace("/")
+    } catch (err) {
+      console.error("Error restoring backup:", err)
+      alert(t.serverErrors.restoreFailed)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <div className="dark">
+      <main className="min-h-screen bg-zinc-950 text-zinc-50">
+        <div className="mx-auto max-w-sm p-4 pt-12">
+          <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+            <CardHeader className="space-y-2">
+              <div className="flex items-center gap-2">
+                <DatabaseBackup className="h-5 w-5 text-purple-400" />
+                <CardTitle className="text-zinc-100">{t.admin.title}</CardTitle>
+              </div>
+              <CardDescription className="text-zinc-400">
+                {t.admin.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4">
+              <div className="grid gap-2">
+                <Label className="text-zinc-300">{t.admin.backup}</Label>
+                <div className="text-xs text-zinc-500">{t.admin.backupHint}</div>
+                <Button asChild className="bg-purple-600 hover:bg-purple-500 text-white border-0">
+                  <a href="/api/backup" download>
+                    <Download className="me-2 h-4 w-4" />
+                    {t.admin.download}
+                  </a>
+                </Button>
+              </div>
+              <Separator className="bg-zinc-800" />
+              <div className="grid gap-2">
+                <Label htmlFor="backupFile" className="text-zinc-300">
+                  {t.admin.restore}
+                </Label>
+                <div className="text-xs text-zinc-500">{t.admin.restoreHint}</div>
+                <Input
+                  id="backupFile"
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className="bg-zinc-800 border-zinc-700 text-zinc-100"
+                  disabled={restoring}
+                />
+                <Button
+                  onClick={handleRestore}
+                  className="bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+                  disabled={restoring || !file}
+                >
+                  {restoring ? <Loader2 className="h-4 w-4 animate-spin" /> : t.admin.restoreButton}
+                </Button>
+              </div>
+              <Separator className="bg-zinc-800" />
+              <Button asChild variant="ghost" className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800">
+                <Link href="/">
+                  <ArrowLeft className="me-2 h-4 w-4 rtl:rotate-180" />
+                  {t.back}
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession, type Session } from "@/lib/auth"
+import { createBackup, parseBackup, restoreBackup } from "@/lib/backup"
+import { UserError, type ErrorKey, type Failure } from "@/lib/errors"
+
+async function sessionOrNull(): Promise<Session | null> {
+  try {
+    return await requireSession()
+  } catch {
+    return null
+  }
+}
+
+function failure(key: ErrorKey, status: number) {
+  return NextResponse.json<Failure>({ error: key }, { status })
+}
+
+// Downloads everything the group has recorded as one versioned JSON file
+export async function GET() {
+  const session = await sessionOrNull()
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 })
+  }
+
+  try {
+    const backup = await createBackup(session.groupId)
+    const filename = `fuel-split-backup-${backup.createdAt.slice(0, 10)}.json`
+    return NextResponse.json(backup, {
+      headers: { "Content-Disposition": `attachment; filename="${filename}"`, "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    console.error("Error creating backup:", error)
+    return NextResponse.json({ error: "Backup failed." }, { status: 500 })
+  }
+}
+
+// Restores a backup file sent as the request body. A route rather than a server action,
+// since backups outgrow the action body size limit. Errors come back as a Failure, like the
+// actions' errors, so the restore page can show them in the user's language.
+export async function POST(request: NextRequest) {
+  const session = await sessionOrNull()
+  if (!session) {
+    return failure("notSignedIn", 401)
+  }
+
+  let backup
+  try {
+    backup = parseBackup(await request.json(), session.groupId, session.user)
+  } catch (error) {
+    if (error instanceof SyntaxError) return failure("backupNotJson", 400)
+    if (error instanceof UserError) return failure(error.key, 400)
+    throw error
+  }
+
+  try {
+    await restoreBackup(backup, session.groupId)
+    return NextResponse.json({ vehicles: backup.vehicles.length, entries: backup.entries.length })
+  } catch (error) {
+    console.error("Error restoring backup:", error)
+    return failure("restoreFailed", 500)
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession, type Session } from "@/lib/auth"
+import { getDrivers, getEntries, getVehicles } from "@/lib/database"
+import { entryRows, involvesDriver, resetRows, toCsv } from "@/lib/export"
+import { exportQuerySchema, parseInput, type ExportQuery } from "@/lib/schemas"
+
+// Downloads the group's entries or reset snapshots as CSV or JSON, e.g.
+// /api/export?format=csv&kind=resets&from=1704060000000&to=1711918799999&driver=<id>&vehicle=<id>
+// from and to are timestamps in milliseconds and both ends are included.
+export async function GET(request: NextRequest) {
+  let session: Session
+  try {
+    session = await requireSession()
+  } catch {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 })
+  }
+
+  let query: ExportQuery
+  try {
+    const params = Array.from(request.nextUrl.searchParams).filter(([, value]) => value !== "")
+    query = parseInput(exportQuerySchema, Object.fromEntries(params))
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  try {
+    const [entries, drivers, vehicles] = await Promise.all([
+      getEntries(session.groupId, {
+        vehicleId: query.vehicle,
+        from: query.from,
+        to: query.to,
+      }),
+      getDrivers(session.groupId),
+      getVehicles(session.groupId),
+    ])
+    const selected = entries.filter(
+      (e) => (!query.driver || involvesDriver(e, query.driver)) && (query.kind === "entries" || e.type === "reset"),
+    )
+
+    const filename = `fuel-split-${query.kind}-${new Date().toISOString().slice(0, 10)}.${query.format}`
+    const headers = { "Content-Disposition": `attachment; filename="${filename}"`, "Cache-Control": "no-store" }
+    if (query.format === "json") {
+      const body = { exportedAt: new Date().toISOString(), drivers, vehicles, [query.kind]: selected }
+      return NextResponse.json(body, { headers })
+    }
+
+    const rows =
+      query.kind === "entries"
+        ? entryRows(selected, drivers, vehicles)
+        : resetRows(selected, drivers, vehicles, query.driver)
+    // The byte order mark makes spreadsheet apps read driver names as UTF-8
+    return new NextResponse(`\uFEFF${toCsv(rows)}`, {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    })
+  } catch (error) {
+    console.error("Error exporting history:", error)
+    return NextResponse.json({ error: "Export failed." }, { status: 500 })
+  }
+}
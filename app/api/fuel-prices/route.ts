@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { priceProviderFromEnv } from "@/lib/fuel-prices"
+import { importFuelPrice } from "@/lib/settings"
+
+// Scheduled import of the published fuel price table for every group (see vercel.json).
+// Called without a session, so it's guarded by CRON_SECRET instead.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const provider = priceProviderFromEnv()
+  if (!provider) {
+    return NextResponse.json({ error: "No fuel price source is configured." }, { status: 503 })
+  }
+
+  try {
+    const updated = await importFuelPrice(provider, null)
+    return NextResponse.json({ source: provider.name, updated })
+  } catch (error) {
+    console.error("Error importing fuel prices:", error)
+    return NextResponse.json({ error: "Import failed." }, { status: 500 })
+  }
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import type React from "react"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { isFailure } from "@/lib/errors"
+import { Fuel, Loader2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+import { joinGroup } from "../actions"
+
+export default function JoinPage() {
+  const router = useRouter()
+  const { t } = useI18n()
+  const [invite, setInvite] = useState("")
+  const [name, setName] = useState("")
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  // Invite links look like /join?code=...
+  useEffect(() => {
+    setInvite(new URLSearchParams(window.location.search).get("code") ?? "")
+  }, [])
+
+  async function handleJoin(e: React.FormEvent) {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      const result = await joinGroup(invite, name, code)
+      if (isFailure(result)) {
+        alert(t.serverErrors[result.error])
+        return
+      }
+      router.replace("/")
+    } catch (err: any) {
+      alert(err.message || t.join.failed)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="dark">
+      <main className="min-h-screen bg-zinc-950 text-zinc-50">
+        <div className="mx-auto max-w-sm p-4 pt-12">
+          <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+            <CardHeader className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Fuel className="h-5 w-5 text-purple-400" />
+                <CardTitle className="text-zinc-100">{t.join.title}</CardTitle>
+              </div>
+              <CardDescription className="text-zinc-400">
+                {t.join.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleJoin} className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="invite" className="text-zinc-300">
+                    {t.join.inviteCode}
+                  </Label>
+                  <Input
+                    id="invite"
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                    value={invite}
+                    onChange={(e) => setInvite(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="name" className="text-zinc-300">
+                    {t.join.name}
+                  </Label>
+                  <Input
+                    id="name"
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="code" className="text-zinc-300">
+                    {t.join.code}
+                  </Label>
+                  <Input
+                    id="code"
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    placeholder={t.join.codePlaceholder}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-purple-600 hover:bg-purple-500 text-white border-0"
+                  disabled={submitting}
+                >
+                  {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : t.join.submit}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
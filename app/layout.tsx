@@ -1,21 +1,26 @@
 import type { Metadata } from 'next'
 import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
+import { cookies } from 'next/headers'
+import { I18nProvider } from '@/components/i18n-provider'
+import { LOCALE_COOKIE, dirOf, localeOf } from '@/lib/i18n'
 import './globals.css'
 
 export const metadata: Metadata = {
   title: 'Fuel Split',
-  description: 'Split fuel costs by km for two drivers',
+  description: 'Split fuel costs by km between drivers',
   generator: 'v0.app',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const locale = localeOf((await cookies()).get(LOCALE_COOKIE)?.value)
+
   return (
-    <html lang="en">
+    <html lang={locale} dir={dirOf(locale)}>
       <head>
         <style>{`
 html {
@@ -25,7 +30,9 @@ html {
 }
         `}</style>
       </head>
-      <body>{children}</body>
+      <body>
+        <I18nProvider locale={locale}>{children}</I18nProvider>
+      </body>
     </html>
   )
 }
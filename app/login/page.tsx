@@ -0,0 +1,95 @@
+"use client"
+
+import type React from "react"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { isFailure } from "@/lib/errors"
+import { Fuel, Loader2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+import { login } from "../actions"
+
+export default function LoginPage() {
+  const router = useRouter()
+  const { t } = useI18n()
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  async function handleLogin(e: React.FormEvent) {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      const user = await login(code)
+      if (isFailure(user)) {
+        alert(t.serverErrors[user.error])
+        return
+      }
+      if (!user) {
+        alert(t.serverErrors.invalidCode)
+        return
+      }
+      router.replace("/")
+    } catch (err: any) {
+      alert(err.message || t.login.failed)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="dark">
+      <main className="min-h-screen bg-zinc-950 text-zinc-50">
+        <div className="mx-auto max-w-sm p-4 pt-12">
+          <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+            <CardHeader className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Fuel className="h-5 w-5 text-purple-400" />
+                <CardTitle className="text-zinc-100">{t.login.title}</CardTitle>
+              </div>
+              <CardDescription className="text-zinc-400">
+                {t.login.description}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleLogin} className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="code" className="text-zinc-300">
+                    {t.login.code}
+                  </Label>
+                  <Input
+                    id="code"
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    placeholder={t.login.codePlaceholder}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    disabled={submitting}
+                  />
+                  <div className="flex items-center gap-1 text-xs text-zinc-500">
+                    <span>{t.login.askOwner}</span>
+                    <a href="/join" className="text-purple-400 underline-offset-2 hover:underline">
+                      {t.login.joinWithInvite}
+                    </a>
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-purple-600 hover:bg-purple-500 text-white border-0"
+                  disabled={submitting}
+                >
+                  {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : t.login.submit}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
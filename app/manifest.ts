@@ -4,7 +4,7 @@ export default function manifest(): MetadataRoute.Manifest {
   return {
     name: "Fuel Split",
     short_name: "FuelSplit",
-    description: "Split fuel costs by km for two drivers",
+    description: "Split fuel costs by km between drivers",
     start_url: "/",
     display: "standalone",
     background_color: "#ffffff",
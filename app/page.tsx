@@ -1,155 +1,226 @@
 "use client"
 
-import type React from "react"
-
-import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { ChargeSheet } from "@/components/charge-sheet"
+import { DriversSettings } from "@/components/drivers-settings"
+import { ExportControls } from "@/components/export-controls"
+import { FillUpSheet } from "@/components/fill-up-sheet"
+import { HistoryList } from "@/components/history-list"
+import { useI18n } from "@/components/i18n-provider"
+import { InviteSettings } from "@/components/invite-settings"
+import { LedgerSheet } from "@/components/ledger-sheet"
+import { MessageTemplateSettings } from "@/components/message-template-settings"
+import { NotifySettings } from "@/components/notify-settings"
+import { PricingSettings, type PricingInput } from "@/components/pricing-settings"
+import { TripSplit } from "@/components/trip-split"
+import { VehiclesSettings } from "@/components/vehicles-settings"
+import type { AppState, Charge, DriverId, FillUp, Pricing, VehicleId } from "@/lib/database"
+import {
+  driverName,
+  equalSplit,
+  inferDriver,
+  kmFor,
+  roundKm,
+  totalKmOf,
+  visibleDrivers,
+} from "@/lib/drivers"
+import { isFailure, isStale, type Failure, type Stale } from "@/lib/errors"
+import { formatCurrency } from "@/lib/format"
+import { LOCALE_NAMES, type Locale } from "@/lib/i18n"
+import { costBy, priceSegments, totalCostOf } from "@/lib/pricing"
+import { chargeCost, cycleCharges, netBalances } from "@/lib/settlement"
+import { vehicleName } from "@/lib/vehicles"
+import type { StateDrift } from "@/lib/replay"
 import { cn } from "@/lib/utils"
-import { Fuel, History, Loader2, LogOut, Send, Settings, Undo2 } from "lucide-react"
-import { useEffect, useMemo, useState } from "react"
-import { addMileageEntry, loadAppState, resetAndGetMessage, undoLastEntry, updateSettings } from "./actions"
-
-type User = "Amit" | "John"
+import { BarChart3, Fuel, History, Loader2, LogOut, PlugZap, Settings, Undo2, Zap } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import {
+  addMileageEntry,
+  addSharedTrip,
+  checkConsistency,
+  createDriver,
+  createGroupInvite,
+  createInvite,
+  createVehicle,
+  deleteEntry,
+  editEntry,
+  importFuelPrices,
+  loadAppState,
+  loadHistory,
+  loadMessageSettings,
+  loadNotificationSettings,
+  loadSessionUser,
+  logCharge,
+  logout as endSession,
+  recordPayment,
+  renameDriver,
+  renameVehicle,
+  repairAppState,
+  resetAndGetMessage,
+  saveMessageSettings,
+  saveNotifyDestination,
+  sendTestNotification,
+  setLanguage,
+  setDriverActive,
+  setVehicleEnergy,
+  undoLastEntry,
+  updateSettings,
+} from "./actions"
 
-const CODES_TO_USER: Record<string, User> = {
-  "1337": "Amit",
-  "1234": "John",
-}
+const VEHICLE_KEY = "fuel-split-vehicle"
 
-type Entry = {
-  id: string
-  type: "init" | "entry" | "reset"
-  timestamp: number
-  reading?: number
-  deltaKm?: number
-  attributedTo?: User
-  enteredBy?: User
-  note?: string
-  snapshot?: {
-    kmBy: Record<User, number>
-    pricePerKm: number
-    totalKm: number
-    totalAmount: number
-  }
-}
-
-type AppState = {
-  version: number
-  pricePerKm: number
-  startingOdometer: number
-  lastOdometer: number | null
-  kmBy: Record<User, number>
-  history: Entry[]
-  lastEnteredBy: User | null
-}
-
-const SESSION_KEY = "fuel-split-session-user"
-
-function formatCurrency(n: number) {
-  try {
-    return new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS", maximumFractionDigits: 2 }).format(n)
-  } catch {
-    return `₪${n.toFixed(2)}`
-  }
-}
+const LOCALES: Locale[] = ["he", "en"]
 
 export default function Page() {
+  const router = useRouter()
+  const { t, locale } = useI18n()
+
   // Session
-  const [sessionUser, setSessionUser] = useState<User | null>(null)
+  const [sessionUser, setSessionUser] = useState<DriverId | null>(null)
   const [state, setState] = useState<AppState | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    if (typeof window === "undefined") return
-    const saved = window.localStorage.getItem(SESSION_KEY)
-    if (saved) setSessionUser(saved as User)
-  }, [])
+    loadSessionUser().then((user) => {
+      if (user) setSessionUser(user)
+      else router.replace("/login")
+    })
+  }, [router])
 
   // Load state from database
-  useEffect(() => {
-    async function loadState() {
-      try {
-        setLoading(true)
-        const appState = await loadAppState()
-        setState(appState)
-        setError(null)
-      } catch (err) {
-        console.error("Failed to load state:", err)
-        setError("Failed to load data. Please try again.")
-      } finally {
-        setLoading(false)
-      }
+  const loadState = useCallback(async (vehicleId: VehicleId | null) => {
+    try {
+      setLoading(true)
+      const appState = await loadAppState(vehicleId)
+      setState(appState)
+      setError(null)
+      window.localStorage.setItem(VEHICLE_KEY, appState.vehicleId)
+    } catch (err) {
+      console.error("Failed to load state:", err)
+      setError(t.loadFailed)
+    } finally {
+      setLoading(false)
     }
+  }, [t])
 
+  useEffect(() => {
     if (sessionUser) {
-      loadState()
+      loadState(window.localStorage.getItem(VEHICLE_KEY))
     }
-  }, [sessionUser])
+  }, [sessionUser, loadState])
+
+  // Errors the user can fix come back as a Failure; anything thrown is a bug or an outage
+  async function handleActionError(err: any, fallback: string) {
+    console.error(fallback, err)
+    alert(fallback)
+  }
+
+  function showFailure(failure: Failure) {
+    alert(t.serverErrors[failure.error])
+  }
+
+  // Someone else saved first: show their numbers instead of retrying blindly
+  async function applyState(result: AppState | Stale | Failure): Promise<boolean> {
+    if (isFailure(result)) {
+      showFailure(result)
+      return false
+    }
+    if (isStale(result)) {
+      alert(t.errors.stale)
+      await loadState(state?.vehicleId ?? null)
+      return false
+    }
+    setState(result)
+    return true
+  }
 
   // Derived values
-  const totalKm = state ? state.kmBy.Amit + state.kmBy.John : 0
-  const totalAmount = state ? totalKm * state.pricePerKm : 0
-  const amounts = state
-    ? {
-        Amit: state.kmBy.Amit * state.pricePerKm,
-        John: state.kmBy.John * state.pricePerKm,
-      }
-    : { Amit: 0, John: 0 }
+  const totalKm = state ? totalKmOf(state.kmBy) : 0
+  const segments = state ? priceSegments(state.history, state.pricePerKm, state.startingOdometer) : []
+  const costs = costBy(segments)
+  const totalAmount = totalCostOf(segments)
+  const summaryDrivers = state ? visibleDrivers(state.drivers, state.kmBy) : []
+  const balances = state ? netBalances(state.ledger) : []
+  const energy = state?.vehicles.find((v) => v.id === state.vehicleId)?.energy ?? "fuel"
+  const charges = state ? cycleCharges(state.history) : []
+  const chargedAmount = charges.reduce((sum, c) => sum + chargeCost(c), 0)
 
   // UI State
-  const [code, setCode] = useState("")
   const [mileageValue, setMileageValue] = useState<string>("")
+  const [drivenBy, setDrivenBy] = useState<DriverId | null>(null)
+  // Percent per driver while entering a shared trip, null for a single driver
+  const [split, setSplit] = useState<Record<DriverId, string> | null>(null)
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [historyOpen, setHistoryOpen] = useState(false)
+  const [fillUpOpen, setFillUpOpen] = useState(false)
+  const [chargeOpen, setChargeOpen] = useState(false)
+  const [ledgerOpen, setLedgerOpen] = useState(false)
   const [actionLoading, setActionLoading] = useState(false)
+  const [drift, setDrift] = useState<StateDrift[] | null>(null)
+
+  // Preselect the likely driver again whenever the state moves on
+  useEffect(() => {
+    if (state && sessionUser) {
+      setDrivenBy(inferDriver(state, sessionUser))
+      setSplit(null)
+    }
+  }, [state, sessionUser])
+
+  function sharedTripDefaults(): Record<DriverId, string> {
+    const ids = state ? state.drivers.filter((d) => d.active).map((d) => d.id) : []
+    return Object.fromEntries(Object.entries(equalSplit(ids)).map(([id, percent]) => [id, String(percent)]))
+  }
+
+  // Same person entering twice in a row usually means a handover reading was missed
+  const missedHandover = state !== null && state.lastOdometer !== null && state.lastEnteredBy === sessionUser
 
   // Undo stack (only last mileage entry)
   const lastEntry = useMemo(() => {
     if (!state) return null
     for (let i = state.history.length - 1; i >= 0; i--) {
-      if (state.history[i].type === "entry") return state.history[i]
+      if (["entry", "shared", "charge", "reset"].includes(state.history[i].type)) return state.history[i]
     }
     return null
   }, [state])
 
-  function handleLogin(e: React.FormEvent) {
-    e.preventDefault()
-    const user = CODES_TO_USER[code.trim()]
-    if (!user) {
-      alert("Invalid code")
-      return
-    }
-    setSessionUser(user)
-    if (typeof window !== "undefined") window.localStorage.setItem(SESSION_KEY, user)
-  }
-
-  function logout() {
+  async function logout() {
+    await endSession()
     setSessionUser(null)
     setState(null)
-    if (typeof window !== "undefined") window.localStorage.removeItem(SESSION_KEY)
+    router.replace("/login")
   }
 
   async function addMileage() {
     if (!sessionUser || !state) return
     const reading = Number(mileageValue)
     if (!Number.isFinite(reading) || reading < 0) {
-      alert("Please enter a valid mileage (km).")
+      alert(t.mileage.invalid)
       return
     }
 
     try {
       setActionLoading(true)
-      const newState = await addMileageEntry(sessionUser, reading, state)
-      setState(newState)
-      setMileageValue("")
+      const result = split
+        ? await addSharedTrip(
+            state.vehicleId,
+            reading,
+            Object.fromEntries(Object.entries(split).map(([id, percent]) => [id, Number(percent)])),
+            state.version,
+          )
+        : await addMileageEntry(state.vehicleId, reading, drivenBy ?? sessionUser, state.version)
+      if (await applyState(result)) {
+        setMileageValue("")
+      }
     } catch (err: any) {
-      alert(err.message || "Failed to add mileage. Please try again.")
+      await handleActionError(err, t.errors.addMileage)
     } finally {
       setActionLoading(false)
     }
@@ -157,13 +228,18 @@ export default function Page() {
 
   async function undoLast() {
     if (!lastEntry || !state) return
+    if (
+      lastEntry.type === "reset" &&
+      !confirm(t.mileage.confirmUndoReset)
+    ) {
+      return
+    }
 
     try {
       setActionLoading(true)
-      const newState = await undoLastEntry(state)
-      setState(newState)
+      await applyState(await undoLastEntry(state.vehicleId, state.version))
     } catch (err: any) {
-      alert(err.message || "Failed to undo. Please try again.")
+      await handleActionError(err, t.errors.undo)
     } finally {
       setActionLoading(false)
     }
@@ -174,100 +250,195 @@ export default function Page() {
     window.open(url, "_blank")
   }
 
-  async function doResetAndShare() {
+  // Electric vehicles settle their charging sessions without a fuel receipt
+  async function doResetAndShare(fillUp: FillUp | null) {
     if (!state) return
+    if (!fillUp && !confirm(t.mileage.confirmSettle)) return
 
     try {
       setActionLoading(true)
-      const { message, newState } = await resetAndGetMessage(state)
+      const result = await resetAndGetMessage(state.vehicleId, fillUp, state.version)
+      if (isStale(result) || isFailure(result)) {
+        await applyState(result)
+        return
+      }
+      const { message, newState, notified } = result
       setState(newState)
-      openWhatsAppWithMessage(message)
+      setFillUpOpen(false)
+      // Nobody gets summaries sent automatically, so share it by hand as before
+      if (!notified) {
+        openWhatsAppWithMessage(message)
+      }
     } catch (err: any) {
-      alert(err.message || "Failed to reset. Please try again.")
+      await handleActionError(err, t.errors.reset)
     } finally {
       setActionLoading(false)
     }
   }
 
-  async function saveSettings(newPricePerKm: number, newStartingOdo: number) {
+  async function doLogCharge(charge: Charge) {
     if (!state) return
 
+    if (await runStateAction(() => logCharge(state.vehicleId, charge, state.version), t.errors.logCharge)) {
+      setChargeOpen(false)
+    }
+  }
+
+  async function saveSettings(pricingValue: PricingInput, newStartingOdo: number, effectiveFrom: string) {
+    if (!state) return
+
+    const pricing: Pricing =
+      pricingValue.mode === "consumption"
+        ? {
+            mode: "consumption",
+            fuelPricePerLiter: Number(pricingValue.fuelPricePerLiter),
+            litersPer100Km: Number(pricingValue.litersPer100Km),
+          }
+        : { mode: "perKm" }
+
     try {
       setActionLoading(true)
-      const newState = await updateSettings(newPricePerKm, newStartingOdo, state)
-      setState(newState)
-      setSettingsOpen(false)
+      const effectiveAt = effectiveFrom ? new Date(effectiveFrom).getTime() : null
+      const result = await updateSettings(
+        state.vehicleId,
+        Number(pricingValue.pricePerKm),
+        newStartingOdo,
+        pricing,
+        effectiveAt,
+        state.version,
+      )
+      if (await applyState(result)) {
+        setSettingsOpen(false)
+      }
+    } catch (err: any) {
+      await handleActionError(err, t.errors.saveSettings)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  async function switchVehicle(vehicleId: VehicleId) {
+    setDrift(null)
+    await loadState(vehicleId)
+  }
+
+  async function runStateAction(
+    action: () => Promise<AppState | Stale | Failure>,
+    fallback: string,
+  ): Promise<boolean> {
+    try {
+      setActionLoading(true)
+      return await applyState(await action())
+    } catch (err: any) {
+      await handleActionError(err, fallback)
+      return false
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  async function runInviteAction(action: () => Promise<string | Failure>): Promise<string | null> {
+    try {
+      setActionLoading(true)
+      const result = await action()
+      if (isFailure(result)) {
+        showFailure(result)
+        return null
+      }
+      return result
+    } catch (err: any) {
+      await handleActionError(err, t.errors.invite)
+      return null
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  async function runSettingsAction(action: () => Promise<void | Failure>, fallback: string): Promise<boolean> {
+    try {
+      setActionLoading(true)
+      const result = await action()
+      if (isFailure(result)) {
+        showFailure(result)
+        return false
+      }
+      return true
+    } catch (err: any) {
+      await handleActionError(err, fallback)
+      return false
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  // The cookie set by the action changes lang and dir; refreshing re-renders the layout with them
+  async function changeLanguage(next: Locale) {
+    if (next === locale) return
+    if (await runSettingsAction(() => setLanguage(next), t.errors.setLanguage)) {
+      router.refresh()
+    }
+  }
+
+  async function runConsistencyCheck() {
+    if (!state) return
+
+    try {
+      setActionLoading(true)
+      const result = await checkConsistency(state.vehicleId)
+      if (isFailure(result)) showFailure(result)
+      else setDrift(result)
     } catch (err: any) {
-      alert(err.message || "Failed to save settings. Please try again.")
+      await handleActionError(err, t.errors.check)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  async function repairFromHistory() {
+    if (!state) return
+
+    try {
+      setActionLoading(true)
+      if (await applyState(await repairAppState(state.vehicleId, state.version))) {
+        setDrift([])
+      }
+    } catch (err: any) {
+      await handleActionError(err, t.errors.repair)
     } finally {
       setActionLoading(false)
     }
   }
 
   // Forms controlled state for settings
-  const [priceInput, setPriceInput] = useState<string>("")
+  const [pricingInput, setPricingInput] = useState<PricingInput>({
+    mode: "perKm",
+    pricePerKm: "",
+    fuelPricePerLiter: "",
+    litersPer100Km: "",
+  })
   const [startOdoInput, setStartOdoInput] = useState<string>("")
+  const [effectiveFromInput, setEffectiveFromInput] = useState<string>("")
   useEffect(() => {
     if (state) {
-      setPriceInput(String(state.pricePerKm))
+      setPricingInput({
+        mode: state.pricing.mode,
+        pricePerKm: String(state.pricePerKm),
+        fuelPricePerLiter: state.pricing.mode === "consumption" ? String(state.pricing.fuelPricePerLiter) : "",
+        litersPer100Km: state.pricing.mode === "consumption" ? String(state.pricing.litersPer100Km) : "",
+      })
       setStartOdoInput(String(state.startingOdometer))
+      setEffectiveFromInput("")
     }
   }, [settingsOpen, state])
 
   // Loading or error states
-  if (!sessionUser) {
-    return (
-      <div className="dark">
-        <main className="min-h-screen bg-zinc-950 text-zinc-50">
-          <div className="mx-auto max-w-sm p-4 pt-12">
-            <Card className="shadow-sm bg-zinc-900 border-zinc-800">
-              <CardHeader className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Fuel className="h-5 w-5 text-purple-400" />
-                  <CardTitle className="text-zinc-100">Fuel Split Login</CardTitle>
-                </div>
-                <CardDescription className="text-zinc-400">
-                  Enter your one-time code. Only Amit and John can access.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleLogin} className="grid gap-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="code" className="text-zinc-300">
-                      Access Code
-                    </Label>
-                    <Input
-                      id="code"
-                      className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
-                      inputMode="numeric"
-                      pattern="[0-9]*"
-                      placeholder="Enter your code"
-                      value={code}
-                      onChange={(e) => setCode(e.target.value)}
-                    />
-                    <div className="flex items-center gap-1 text-xs text-zinc-500">
-                      <span>{"Ask Amit for the code."}</span>
-                    </div>
-                  </div>
-                  <Button type="submit" className="w-full bg-purple-600 hover:bg-purple-500 text-white border-0">
-                    Enter
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
-          </div>
-        </main>
-      </div>
-    )
-  }
-
-  if (loading) {
+  if (!sessionUser || loading) {
     return (
       <div className="dark">
         <main className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center">
           <div className="flex items-center gap-2">
             <Loader2 className="h-5 w-5 animate-spin text-purple-400" />
-            <span className="text-zinc-300">Loading...</span>
+            <span className="text-zinc-300">{t.loading}</span>
           </div>
         </main>
       </div>
@@ -281,12 +452,12 @@ export default function Page() {
           <div className="mx-auto max-w-sm p-4">
             <Card className="shadow-sm bg-zinc-900 border-zinc-800">
               <CardContent className="pt-6 text-center">
-                <p className="text-zinc-300 mb-4">{error || "Failed to load data"}</p>
+                <p className="text-zinc-300 mb-4">{error || t.loadFailed}</p>
                 <Button
                   onClick={() => window.location.reload()}
                   className="bg-purple-600 hover:bg-purple-500 text-white border-0"
                 >
-                  Try Again
+                  {t.tryAgain}
                 </Button>
               </CardContent>
             </Card>
@@ -304,15 +475,28 @@ export default function Page() {
           <div className="mx-auto max-w-sm px-4 py-3 flex items-center gap-3">
             <div className="flex items-center gap-2">
               <Fuel className="h-5 w-5 text-purple-400" />
-              <div className="font-medium text-zinc-100">Fuel Split</div>
+              <div className="font-medium text-zinc-100">{t.appName}</div>
             </div>
-            <div className="ml-auto flex items-center gap-2">
+            <div className="ms-auto flex items-center gap-2">
+              {/* Stats */}
+              <Button
+                asChild
+                variant="ghost"
+                size="icon"
+                className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800"
+              >
+                <Link href="/stats">
+                  <BarChart3 className="h-5 w-5" />
+                  <span className="sr-only">{t.header.stats}</span>
+                </Link>
+              </Button>
+
               {/* History */}
               <Sheet open={historyOpen} onOpenChange={setHistoryOpen}>
                 <SheetTrigger asChild>
                   <Button variant="ghost" size="icon" className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800">
                     <History className="h-5 w-5" />
-                    <span className="sr-only">History</span>
+                    <span className="sr-only">{t.header.history}</span>
                   </Button>
                 </SheetTrigger>
                 <SheetContent
@@ -320,97 +504,33 @@ export default function Page() {
                   className="max-h-[85vh] overflow-y-auto bg-zinc-900 text-zinc-50 border-zinc-800 mx-0 px-4 py-0 pb-4"
                 >
                   <SheetHeader>
-                    <SheetTitle>History</SheetTitle>
-                    <SheetDescription className="text-zinc-400">Mileage entries and resets.</SheetDescription>
+                    <SheetTitle>{t.header.history}</SheetTitle>
+                    <SheetDescription className="text-zinc-400">
+                      {t.history.description(vehicleName(state.vehicles, state.vehicleId))}
+                    </SheetDescription>
                   </SheetHeader>
                   <div className="mt-3 space-y-3">
-                    {state.history.length === 0 && <div className="text-sm text-zinc-400">No history yet.</div>}
-                    {state.history
-                      .slice()
-                      .reverse()
-                      .map((e) => {
-                        const d = new Date(e.timestamp).toLocaleString()
-                        if (e.type === "reset") {
-                          return (
-                            <div key={e.id} className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
-                              <div className="flex items-center justify-between">
-                                <div className="font-medium">Reset</div>
-                                <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
-                                  {d}
-                                </Badge>
-                              </div>
-                              <div className="mt-2 grid gap-1 text-sm">
-                                <div className="flex items-center justify-between">
-                                  <span>Amit</span>
-                                  <span>
-                                    {e.snapshot
-                                      ? `${e.snapshot.kmBy.Amit} km • ${formatCurrency(
-                                          e.snapshot.kmBy.Amit * e.snapshot.pricePerKm,
-                                        )}`
-                                      : "-"}
-                                  </span>
-                                </div>
-                                <div className="flex items-center justify-between">
-                                  <span>John</span>
-                                  <span>
-                                    {e.snapshot
-                                      ? `${e.snapshot.kmBy.John} km • ${formatCurrency(
-                                          e.snapshot.kmBy.John * e.snapshot.pricePerKm,
-                                        )}`
-                                      : "-"}
-                                  </span>
-                                </div>
-                                <Separator className="my-2 bg-zinc-800" />
-                                <div className="flex items-center justify-between">
-                                  <span>Total</span>
-                                  <span className="font-medium">
-                                    {e.snapshot
-                                      ? `${e.snapshot.totalKm} km • ${formatCurrency(e.snapshot.totalAmount)}`
-                                      : "-"}
-                                  </span>
-                                </div>
-                              </div>
-                            </div>
-                          )
-                        }
-                        // entry or init
-                        return (
-                          <div key={e.id} className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
-                            <div className="flex items-center justify-between">
-                              <div className="font-medium flex items-center gap-2">
-                                <span>{e.type === "init" ? "Initial reading" : "Mileage entry"}</span>
-                                {e.type === "entry" && e.deltaKm !== undefined && (
-                                  <Badge variant="outline" className="ml-1 border-purple-500/40 text-purple-300">
-                                    {`${e.deltaKm} km`}
-                                  </Badge>
-                                )}
-                              </div>
-                              <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
-                                {d}
-                              </Badge>
-                            </div>
-                            <div className="mt-2 grid gap-1 text-sm">
-                              <div className="flex items-center justify-between">
-                                <span>Reading</span>
-                                <span className="font-medium">{e.reading != null ? `${e.reading} km` : "-"}</span>
-                              </div>
-                              {e.type === "entry" && (
-                                <>
-                                  <div className="flex items-center justify-between">
-                                    <span>Entered by</span>
-                                    <span>{e.enteredBy}</span>
-                                  </div>
-                                  <div className="flex items-center justify-between">
-                                    <span>Credited to</span>
-                                    <span className="font-medium text-purple-300">{e.attributedTo}</span>
-                                  </div>
-                                </>
-                              )}
-                              {e.note && <div className="text-xs text-zinc-500 mt-1">{e.note}</div>}
-                            </div>
-                          </div>
+                    <ExportControls drivers={state.drivers} vehicleId={state.vehicleId} />
+                    <HistoryList
+                      vehicleId={state.vehicleId}
+                      version={state.version}
+                      drivers={state.drivers}
+                      ledger={state.ledger}
+                      disabled={actionLoading}
+                      onLoad={(filter, before) => loadHistory(state.vehicleId, filter, before)}
+                      onEdit={(e, reading, attributedTo) =>
+                        runStateAction(
+                          () => editEntry(state.vehicleId, e.id, reading, attributedTo, state.version),
+                          t.errors.saveEntry,
+                        )
+                      }
+                      onDelete={(e) =>
+                        runStateAction(
+                          () => deleteEntry(state.vehicleId, e.id, state.version),
+                          t.errors.deleteEntry,
                         )
-                      })}
+                      }
+                    />
                   </div>
                 </SheetContent>
               </Sheet>
@@ -420,7 +540,7 @@ export default function Page() {
                 <SheetTrigger asChild>
                   <Button variant="ghost" size="icon" className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800">
                     <Settings className="h-5 w-5" />
-                    <span className="sr-only">Settings</span>
+                    <span className="sr-only">{t.header.settings}</span>
                   </Button>
                 </SheetTrigger>
                 <SheetContent
@@ -428,26 +548,65 @@ export default function Page() {
                   className="max-h-[85vh] overflow-y-auto bg-zinc-900 text-zinc-50 border-zinc-800 px-4 py-0 pb-4"
                 >
                   <SheetHeader>
-                    <SheetTitle>Settings</SheetTitle>
-                    <SheetDescription className="text-zinc-400">Set constants and preferences.</SheetDescription>
+                    <SheetTitle>{t.header.settings}</SheetTitle>
+                    <SheetDescription className="text-zinc-400">
+                      {t.settings.description(vehicleName(state.vehicles, state.vehicleId))}
+                    </SheetDescription>
                   </SheetHeader>
                   <div className="mt-3 grid gap-4">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-zinc-300">{t.settings.language}</Label>
+                      <div className="flex gap-2">
+                        {LOCALES.map((l) => (
+                          <Button
+                            key={l}
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => changeLanguage(l)}
+                            disabled={actionLoading}
+                            className={cn(
+                              "border-0",
+                              l === locale
+                                ? "bg-purple-600 text-white hover:bg-purple-500"
+                                : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                            )}
+                          >
+                            {LOCALE_NAMES[l]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <Separator className="bg-zinc-800" />
+                    <PricingSettings
+                      value={pricingInput}
+                      onChange={setPricingInput}
+                      measured={state.consumption}
+                      disabled={actionLoading}
+                      onImport={() =>
+                        runStateAction(
+                          () => importFuelPrices(state.vehicleId),
+                          t.errors.importPrice,
+                        )
+                      }
+                    />
                     <div className="grid gap-2">
-                      <Label htmlFor="price" className="text-zinc-300">
-                        Price per km (ILS)
+                      <Label htmlFor="effectiveFrom" className="text-zinc-300">
+                        {t.settings.effectiveFrom}
                       </Label>
                       <Input
-                        id="price"
-                        inputMode="decimal"
-                        value={priceInput}
-                        onChange={(e) => setPriceInput(e.target.value)}
-                        placeholder="e.g. 0.5"
+                        id="effectiveFrom"
+                        type="datetime-local"
+                        value={effectiveFromInput}
+                        onChange={(e) => setEffectiveFromInput(e.target.value)}
                         className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
                       />
+                      <div className="text-xs text-zinc-500">
+                        {t.settings.effectiveFromHint}
+                      </div>
                     </div>
                     <div className="grid gap-2">
                       <Label htmlFor="startOdo" className="text-zinc-300">
-                        Starting mileage (km)
+                        {t.settings.startingMileage}
                       </Label>
                       <Input
                         id="startOdo"
@@ -455,11 +614,11 @@ export default function Page() {
                         pattern="[0-9]*"
                         value={startOdoInput}
                         onChange={(e) => setStartOdoInput(e.target.value)}
-                        placeholder="e.g. 1000"
+                        placeholder={t.settings.startingMileagePlaceholder}
                         className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
                       />
                       <div className="text-xs text-zinc-500">
-                        If an initial reading already exists, this is informational only.
+                        {t.settings.startingMileageHint}
                       </div>
                     </div>
                     <div className="flex gap-4">
@@ -469,14 +628,138 @@ export default function Page() {
                         onClick={() => setSettingsOpen(false)}
                         disabled={actionLoading}
                       >
-                        Close
+                        {t.close}
                       </Button>
                       <Button
                         className="flex-1 bg-purple-600 hover:bg-purple-500 text-white border-0"
-                        onClick={() => saveSettings(Number(priceInput), Number(startOdoInput))}
+                        onClick={() => saveSettings(pricingInput, Number(startOdoInput), effectiveFromInput)}
                         disabled={actionLoading}
                       >
-                        {actionLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+                        {actionLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : t.save}
+                      </Button>
+                    </div>
+                    <Separator className="bg-zinc-800" />
+                    <VehiclesSettings
+                      vehicles={state.vehicles}
+                      currentVehicleId={state.vehicleId}
+                      disabled={actionLoading}
+                      onRename={async (name) => {
+                        await runStateAction(
+                          () => renameVehicle(state.vehicleId, name, state.version),
+                          t.errors.renameVehicle,
+                        )
+                      }}
+                      onSetEnergy={(energy) =>
+                        runStateAction(
+                          () => setVehicleEnergy(state.vehicleId, energy, state.version),
+                          t.errors.setEnergy,
+                        )
+                      }
+                      onAdd={(name) => runStateAction(() => createVehicle(name), t.errors.addVehicle)}
+                    />
+                    <Separator className="bg-zinc-800" />
+                    <DriversSettings
+                      drivers={state.drivers}
+                      sessionUser={sessionUser}
+                      disabled={actionLoading}
+                      onRename={async (id, name) => {
+                        await runStateAction(
+                          () => renameDriver(state.vehicleId, id, name, state.version),
+                          t.errors.renameDriver,
+                        )
+                      }}
+                      onSetActive={async (id, active) => {
+                        await runStateAction(
+                          () => setDriverActive(state.vehicleId, id, active, state.version),
+                          t.errors.updateDriver,
+                        )
+                      }}
+                      onAdd={(name, code) =>
+                        runStateAction(
+                          () => createDriver(state.vehicleId, name, code, state.version),
+                          t.errors.addDriver,
+                        )
+                      }
+                    />
+                    <Separator className="bg-zinc-800" />
+                    <NotifySettings
+                      disabled={actionLoading}
+                      onLoad={loadNotificationSettings}
+                      onSave={(destination) =>
+                        runSettingsAction(() => saveNotifyDestination(destination), t.errors.saveNotifications)
+                      }
+                      onTest={() => runSettingsAction(sendTestNotification, t.errors.sendTest)}
+                    />
+                    <Separator className="bg-zinc-800" />
+                    <MessageTemplateSettings
+                      vehicle={vehicleName(state.vehicles, state.vehicleId)}
+                      names={state.drivers.filter((d) => d.active).map((d) => d.name)}
+                      disabled={actionLoading}
+                      onLoad={loadMessageSettings}
+                      onSave={(settings) =>
+                        runSettingsAction(() => saveMessageSettings(settings), t.errors.saveMessage)
+                      }
+                    />
+                    <Separator className="bg-zinc-800" />
+                    <InviteSettings
+                      disabled={actionLoading}
+                      onInvite={() => runInviteAction(() => createInvite())}
+                      onInviteNewGroup={(groupName) => runInviteAction(() => createGroupInvite(groupName))}
+                    />
+                    <Separator className="bg-zinc-800" />
+                    <div className="grid gap-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-zinc-300">{t.settings.consistency}</Label>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+                          onClick={runConsistencyCheck}
+                          disabled={actionLoading}
+                        >
+                          {t.settings.check}
+                        </Button>
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {t.settings.consistencyHint}
+                      </div>
+                      {drift && drift.length === 0 && (
+                        <div className="text-sm text-zinc-400">{t.settings.totalsMatch}</div>
+                      )}
+                      {drift && drift.length > 0 && (
+                        <>
+                          <div className="grid gap-1 rounded-lg border border-zinc-800 bg-zinc-950 p-3 text-sm">
+                            {drift.map((d) => (
+                              <div key={d.field} className="flex items-center justify-between">
+                                <span>{d.field}</span>
+                                <span>
+                                  <span className="text-zinc-500">{String(d.stored ?? "-")}</span>
+                                  {" → "}
+                                  <span className="font-medium text-purple-300">{String(d.replayed ?? "-")}</span>
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                          <Button
+                            className="bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+                            onClick={repairFromHistory}
+                            disabled={actionLoading}
+                          >
+                            {t.settings.repair}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                    <Separator className="bg-zinc-800" />
+                    <div className="flex items-center justify-between">
+                      <Label className="text-zinc-300">{t.settings.backup}</Label>
+                      <Button
+                        asChild
+                        variant="secondary"
+                        size="sm"
+                        className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+                      >
+                        <Link href="/admin">{t.open}</Link>
                       </Button>
                     </div>
                   </div>
@@ -491,7 +774,7 @@ export default function Page() {
                 className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800"
               >
                 <LogOut className="h-5 w-5" />
-                <span className="sr-only">Log out</span>
+                <span className="sr-only">{t.header.logOut}</span>
               </Button>
             </div>
           </div>
@@ -499,73 +782,168 @@ export default function Page() {
 
         {/* Body */}
         <div className="mx-auto max-w-sm p-4 space-y-4">
+          {/* Vehicle switcher */}
+          {state.vehicles.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {state.vehicles.map((v) => (
+                <Button
+                  key={v.id}
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => switchVehicle(v.id)}
+                  disabled={actionLoading || v.id === state.vehicleId}
+                  className={cn(
+                    "border-0",
+                    v.id === state.vehicleId
+                      ? "bg-purple-600 text-white disabled:opacity-100"
+                      : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                  )}
+                >
+                  {v.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Summary with bigger numbers, less text */}
           <Card className="bg-zinc-900 border-zinc-800 shadow-sm">
             <CardContent className="grid gap-4">
               <div className="flex flex-col items-center pt-2">
                 <div className="text-6xl font-extrabold tracking-tight text-zinc-50">{formatCurrency(totalAmount)}</div>
                 <div className="flex items-center gap-4 text-sm">
-                  <span className="text-zinc-400">{totalKm} km</span>
+                  <span className="text-zinc-400">{`${roundKm(totalKm)} ${t.km}`}</span>
                   <span className="text-zinc-600">•</span>
-                  <span className="text-zinc-400">{formatCurrency(state.pricePerKm)} / km</span>
+                  <span className="text-zinc-400">{t.perKm(formatCurrency(state.pricePerKm))}</span>
                 </div>
               </div>
               <div className="grid gap-2">
-                <div
-                  className={cn(
-                    "flex items-center justify-between rounded-lg border px-3 py-2 transition-all duration-200",
-                    state.lastEnteredBy === "Amit"
-                      ? sessionUser === "Amit"
-                        ? "border-zinc-600 bg-zinc-900 shadow-sm" // Current user - subtle grey/white
-                        : "border-purple-500 bg-purple-950/20 shadow-lg shadow-purple-500/20" // Other user - purple glow
-                      : "border-zinc-800 bg-zinc-950",
-                  )}
-                >
-                  <div className="text-xs text-zinc-400">Amit</div>
-                  <div className="text-right">
-                    <div className="text-lg font-semibold text-zinc-100">{formatCurrency(amounts.Amit)}</div>
-                    <div className="text-xs text-zinc-500">{state.kmBy.Amit} km</div>
-                  </div>
-                </div>
-                <div
-                  className={cn(
-                    "flex items-center justify-between rounded-lg border px-3 py-2 transition-all duration-200",
-                    state.lastEnteredBy === "John"
-                      ? sessionUser === "John"
-                        ? "border-zinc-600 bg-zinc-900 shadow-sm" // Current user - subtle grey/white
-                        : "border-purple-500 bg-purple-950/20 shadow-lg shadow-purple-500/20" // Other user - purple glow
-                      : "border-zinc-800 bg-zinc-950",
-                  )}
-                >
-                  <div className="text-xs text-zinc-400">John</div>
-                  <div className="text-right">
-                    <div className="text-lg font-semibold text-zinc-100">{formatCurrency(amounts.John)}</div>
-                    <div className="text-xs text-zinc-500">{state.kmBy.John} km</div>
+                {summaryDrivers.map((d) => (
+                  <div
+                    key={d.id}
+                    className={cn(
+                      "flex items-center justify-between rounded-lg border px-3 py-2 transition-all duration-200",
+                      state.lastEnteredBy === d.id
+                        ? sessionUser === d.id
+                          ? "border-zinc-600 bg-zinc-900 shadow-sm" // Current user - subtle grey/white
+                          : "border-purple-500 bg-purple-950/20 shadow-lg shadow-purple-500/20" // Other user - purple glow
+                        : "border-zinc-800 bg-zinc-950",
+                    )}
+                  >
+                    <div className="text-xs text-zinc-400">{d.name}</div>
+                    <div className="text-end">
+                      <div className="text-lg font-semibold text-zinc-100">
+                        {formatCurrency(costs[d.id] ?? 0)}
+                      </div>
+                      <div className="text-xs text-zinc-500">{`${roundKm(kmFor(state.kmBy, d.id))} ${t.km}`}</div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
+              {charges.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-zinc-500">
+                  <span>{t.summary.chargingThisCycle(charges.length)}</span>
+                  <span className="font-medium text-zinc-300">{formatCurrency(chargedAmount)}</span>
+                </div>
+              )}
               <div className="flex items-center justify-between text-xs text-zinc-500">
-                <span>Odometer</span>
+                <span>{t.summary.odometer}</span>
                 <span className="font-medium text-zinc-300">
-                  {state.lastOdometer != null ? `${state.lastOdometer} km` : `Not set`}
+                  {state.lastOdometer != null ? `${state.lastOdometer} ${t.km}` : t.summary.notSet}
                 </span>
               </div>
             </CardContent>
           </Card>
 
+          {/* Net balances across all resets; details and payments live in the ledger */}
+          <Card className="bg-zinc-900 border-zinc-800 shadow-sm">
+            <CardContent className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium text-zinc-100">{t.summary.balances}</div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLedgerOpen(true)}
+                  className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800"
+                >
+                  {t.summary.ledger}
+                </Button>
+              </div>
+              {balances.length === 0 && <div className="text-xs text-zinc-500">{t.summary.allSettled}</div>}
+              {balances.map((b) => (
+                <div key={`${b.from}-${b.to}`} className="flex items-center justify-between text-sm">
+                  <span className="text-zinc-400">
+                    {t.summary.owes(driverName(state.drivers, b.from), driverName(state.drivers, b.to))}
+                  </span>
+                  <span className="font-medium text-purple-300">{formatCurrency(b.amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
           {/* Inline mileage input with small Undo on side */}
           <Card className="bg-zinc-900 border-zinc-800 shadow-sm">
             <CardHeader className="pb-2">
-              <CardTitle className="text-base text-zinc-100">Enter mileage</CardTitle>
+              <CardTitle className="text-base text-zinc-100">{t.mileage.title}</CardTitle>
               <CardDescription className="text-xs text-zinc-500">
-                Credit goes to the other person automatically.
+                {t.mileage.description}
               </CardDescription>
             </CardHeader>
             <CardContent className="grid gap-3">
+              {state.lastOdometer !== null && (
+                <div className="grid gap-2">
+                  <Label className="text-xs text-zinc-400">{t.mileage.drivenBy}</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {state.drivers
+                      .filter((d) => d.active)
+                      .map((d) => (
+                        <Button
+                          key={d.id}
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => {
+                            setDrivenBy(d.id)
+                            setSplit(null)
+                          }}
+                          disabled={actionLoading}
+                          className={cn(
+                            "border-0",
+                            !split && d.id === drivenBy
+                              ? "bg-purple-600 text-white hover:bg-purple-500"
+                              : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                          )}
+                        >
+                          {d.name}
+                        </Button>
+                      ))}
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setSplit(split ? null : sharedTripDefaults())}
+                      disabled={actionLoading}
+                      className={cn(
+                        "border-0",
+                        split
+                          ? "bg-purple-600 text-white hover:bg-purple-500"
+                          : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                      )}
+                    >
+                      {t.mileage.shared}
+                    </Button>
+                  </div>
+                  {split && (
+                    <TripSplit drivers={state.drivers} split={split} onChange={setSplit} disabled={actionLoading} />
+                  )}
+                  {missedHandover && (
+                    <div className="text-xs text-purple-300">
+                      {t.mileage.missedHandover}
+                    </div>
+                  )}
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <div className="flex-1">
                   <Label htmlFor="mileage" className="sr-only">
-                    Mileage (km)
+                    {t.mileage.label}
                   </Label>
                   <Input
                     id="mileage"
@@ -573,7 +951,11 @@ export default function Page() {
                     pattern="[0-9]*"
                     value={mileageValue}
                     onChange={(e) => setMileageValue(e.target.value)}
-                    placeholder={state.lastOdometer === null ? "e.g. 1000 (initial)" : `Last: ${state.lastOdometer} km`}
+                    placeholder={
+                      state.lastOdometer === null
+                        ? t.mileage.initialPlaceholder
+                        : t.mileage.lastPlaceholder(state.lastOdometer)
+                    }
                     className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
                     disabled={actionLoading}
                   />
@@ -588,8 +970,8 @@ export default function Page() {
                     "text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800",
                     (!lastEntry || actionLoading) && "opacity-50 cursor-not-allowed",
                   )}
-                  aria-label="Undo last"
-                  title="Undo last entry"
+                  aria-label={t.mileage.undo}
+                  title={t.mileage.undoTitle}
                 >
                   {actionLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Undo2 className="h-5 w-5" />}
                 </Button>
@@ -599,19 +981,70 @@ export default function Page() {
                 className="h-12 bg-purple-600 hover:bg-purple-500 text-white border-0"
                 disabled={actionLoading}
               >
-                {actionLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                Add mileage
-              </Button>
-              <Button
-                onClick={doResetAndShare}
-                className="h-12 bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
-                disabled={actionLoading}
-              >
-                {actionLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="mr-2 h-5 w-5" />}
-                Reset & WhatsApp
+                {actionLoading ? <Loader2 className="h-4 w-4 animate-spin me-2" /> : null}
+                {t.mileage.add}
               </Button>
+              {energy !== "fuel" && (
+                <Button
+                  onClick={() => setChargeOpen(true)}
+                  className="h-12 bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+                  disabled={actionLoading}
+                >
+                  <PlugZap className="me-2 h-5 w-5" />
+                  {t.mileage.logCharging}
+                </Button>
+              )}
+              {energy === "electric" ? (
+                <Button
+                  onClick={() => doResetAndShare(null)}
+                  className="h-12 bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+                  disabled={actionLoading || charges.length === 0}
+                >
+                  <Zap className="me-2 h-5 w-5" />
+                  {t.mileage.settleAndReset}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setFillUpOpen(true)}
+                  className="h-12 bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+                  disabled={actionLoading}
+                >
+                  <Fuel className="me-2 h-5 w-5" />
+                  {t.mileage.fillUpAndReset}
+                </Button>
+              )}
             </CardContent>
           </Card>
+          <FillUpSheet
+            open={fillUpOpen}
+            onOpenChange={setFillUpOpen}
+            drivers={state.drivers}
+            sessionUser={sessionUser}
+            disabled={actionLoading}
+            onSubmit={doResetAndShare}
+          />
+          <ChargeSheet
+            open={chargeOpen}
+            onOpenChange={setChargeOpen}
+            drivers={state.drivers}
+            sessionUser={sessionUser}
+            disabled={actionLoading}
+            onSubmit={doLogCharge}
+          />
+          <LedgerSheet
+            open={ledgerOpen}
+            onOpenChange={setLedgerOpen}
+            ledger={state.ledger}
+            drivers={state.drivers}
+            vehicles={state.vehicles}
+            disabled={actionLoading}
+            onPay={(obligationId, amount) =>
+              runStateAction(
+                () => recordPayment(state.vehicleId, obligationId, amount),
+                t.errors.recordPayment,
+              )
+            }
+          />
         </div>
       </main>
     </div>
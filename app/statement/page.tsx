@@ -0,0 +1,188 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { StatementDocument, StatementSummary } from "@/components/statement-document"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { DriverId } from "@/lib/database"
+import { driverStatement, type StatementData } from "@/lib/statement"
+import { toggleClass } from "@/lib/utils"
+import { ArrowLeft, Download, FileText, Loader2, Printer } from "lucide-react"
+import Link from "next/link"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { loadSessionUser, loadStatement } from "../actions"
+
+function currentMonth(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
+}
+
+// First and last millisecond of a "YYYY-MM" month, in local time
+function monthBounds(month: string): [number, number] {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return [new Date(year, monthIndex - 1, 1).getTime(), new Date(year, monthIndex, 1).getTime() - 1]
+}
+
+export default function StatementPage() {
+  const { t, tag } = useI18n()
+  const [month, setMonth] = useState(currentMonth)
+  const [driver, setDriver] = useState<DriverId | null>(null)
+  const [data, setData] = useState<StatementData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [downloading, setDownloading] = useState(false)
+  const documentsRef = useRef<HTMLDivElement>(null)
+
+  // Start with the signed-in driver's own statement
+  useEffect(() => {
+    loadSessionUser().then((user) => user && setDriver(user))
+  }, [])
+
+  useEffect(() => {
+    if (!month) return
+    let cancelled = false
+    setLoading(true)
+    loadStatement(...monthBounds(month))
+      .then((statement) => {
+        if (cancelled) return
+        setData(statement)
+        setError(null)
+      })
+      .catch((err: any) => !cancelled && setError(err.message || t.statement.loadFailed))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [month, t])
+
+  const statements = useMemo(() => {
+    if (!data) return []
+    const ids = driver ? [driver] : data.drivers.map((d) => d.id)
+    return ids.map((id) => driverStatement(data, id)).filter((s) => driver || s.lines.length > 0 || s.paid > 0)
+  }, [data, driver])
+
+  const monthLabel = month
+    ? new Date(monthBounds(month)[0]).toLocaleDateString(tag, { month: "long", year: "numeric" })
+    : ""
+
+  async function handleDownload() {
+    if (!documentsRef.current) return
+    try {
+      setDownloading(true)
+      // Loaded on demand; the PDF libraries are only needed here
+      const { downloadBlob, statementPdf } = await import("@/lib/statement-pdf")
+      const pdf = await statementPdf(Array.from(documentsRef.current.children) as HTMLElement[])
+      downloadBlob(pdf, `fuel-split-statement-${month}.pdf`)
+    } catch (err) {
+      console.error("Error creating statement PDF:", err)
+      alert(t.statement.pdfFailed)
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <div className="dark print:bg-white">
+      <main className="min-h-screen bg-zinc-950 text-zinc-50 print:min-h-0 print:bg-white">
+        <div className="mx-auto max-w-2xl p-4 space-y-4 print:max-w-none print:p-0">
+          <div className="flex items-center gap-2 print:hidden">
+            <Button asChild variant="ghost" size="icon" className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800">
+              <Link href="/">
+                <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+                <span className="sr-only">{t.back}</span>
+              </Link>
+            </Button>
+            <FileText className="h-5 w-5 text-purple-400" />
+            <div className="font-medium text-zinc-100">{t.statement.title}</div>
+            {loading && <Loader2 className="ms-auto h-4 w-4 animate-spin text-zinc-400" />}
+          </div>
+
+          <div className="grid gap-3 rounded-lg border border-zinc-800 bg-zinc-900 p-3 print:hidden">
+            <div className="flex items-end gap-4">
+              <div className="grid flex-1 gap-2">
+                <Label htmlFor="month" className="text-zinc-300">
+                  {t.statement.month}
+                </Label>
+                <Input
+                  id="month"
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="bg-zinc-800 border-zinc-700 text-zinc-100"
+                />
+              </div>
+              <Button
+                onClick={handleDownload}
+                className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+                disabled={loading || downloading || statements.length === 0}
+              >
+                {downloading ? (
+                  <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="me-2 h-4 w-4" />
+                )}
+                {t.statement.downloadPdf}
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => window.print()}
+                className="bg-zinc-800 text-zinc-100 hover:bg-zinc-700 border-0"
+                disabled={loading || statements.length === 0}
+              >
+                <Printer className="h-4 w-4" />
+                <span className="sr-only">{t.statement.print}</span>
+              </Button>
+            </div>
+            {data && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setDriver(null)}
+                  className={toggleClass(driver === null)}
+                >
+                  {t.allDrivers}
+                </Button>
+                {data.drivers.map((d) => (
+                  <Button
+                    key={d.id}
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setDriver(d.id)}
+                    className={toggleClass(driver === d.id)}
+                  >
+                    {d.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <div className="text-sm text-purple-300 print:hidden">{error}</div>}
+
+          {data && statements.length === 0 && (
+            <div className="text-sm text-zinc-400 print:hidden">{t.statement.empty}</div>
+          )}
+          {/* Each child becomes a page of the PDF */}
+          <div ref={documentsRef} className="space-y-4">
+            {data && driver === null && statements.length > 1 && (
+              <StatementSummary statements={statements} drivers={data.drivers} />
+            )}
+            {data &&
+              statements.map((s) => (
+                <StatementDocument
+                  key={s.driver}
+                  statement={s}
+                  monthLabel={monthLabel}
+                  drivers={data.drivers}
+                  vehicles={data.vehicles}
+                />
+              ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
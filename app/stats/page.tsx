@@ -0,0 +1,203 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CycleCostChart, KmChart, ShareChart } from "@/components/stats-charts"
+import type { VehicleId } from "@/lib/database"
+import { driverName, roundKm, totalKmOf } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import { averageDaysBetweenFillUps, cycleStats, kmByPeriod, type StatsData, type StatsPeriod } from "@/lib/stats"
+import { dayBound, toggleClass } from "@/lib/utils"
+import { ArrowLeft, BarChart3, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { useEffect, useMemo, useState } from "react"
+import { loadStats } from "../actions"
+
+export default function StatsPage() {
+  const { t } = useI18n()
+  const [vehicleId, setVehicleId] = useState<VehicleId | null>(null)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [period, setPeriod] = useState<StatsPeriod>("week")
+  const [data, setData] = useState<StatsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (from && to && from > to) return
+    let cancelled = false
+    setLoading(true)
+    loadStats(vehicleId, dayBound(from, false), dayBound(to, true))
+      .then((stats) => {
+        if (cancelled) return
+        setData(stats)
+        setError(null)
+      })
+      .catch((err: any) => !cancelled && setError(err.message || t.stats.loadFailed))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [vehicleId, from, to, t])
+
+  const periods = useMemo(() => (data ? kmByPeriod(data.entries, period) : []), [data, period])
+  const cycles = useMemo(() => (data ? cycleStats(data.entries) : []), [data])
+  const kmBy = useMemo(
+    () =>
+      periods.reduce<Record<string, number>>((sum, p) => {
+        for (const [id, km] of Object.entries(p.kmBy)) sum[id] = (sum[id] ?? 0) + km
+        return sum
+      }, {}),
+    [periods],
+  )
+  const fillUpGap = data ? averageDaysBetweenFillUps(data.entries) : null
+  const totalCost = cycles.reduce((sum, c) => sum + c.cost, 0)
+  const cycleKm = cycles.reduce((sum, c) => sum + c.totalKm, 0)
+
+  return (
+    <div className="dark">
+      <main className="min-h-screen bg-zinc-950 text-zinc-50">
+        <div className="mx-auto max-w-md p-4 space-y-4">
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="icon" className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800">
+              <Link href="/">
+                <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+                <span className="sr-only">{t.back}</span>
+              </Link>
+            </Button>
+            <BarChart3 className="h-5 w-5 text-purple-400" />
+            <div className="font-medium text-zinc-100">{t.stats.title}</div>
+            {loading && <Loader2 className="ms-auto h-4 w-4 animate-spin text-zinc-400" />}
+          </div>
+
+          <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+            <CardContent className="grid gap-3 pt-6">
+              <div className="flex gap-4">
+                <div className="grid flex-1 gap-2">
+                  <Label htmlFor="statsFrom" className="text-zinc-300">
+                    {t.from}
+                  </Label>
+                  <Input
+                    id="statsFrom"
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100"
+                  />
+                </div>
+                <div className="grid flex-1 gap-2">
+                  <Label htmlFor="statsTo" className="text-zinc-300">
+                    {t.to}
+                  </Label>
+                  <Input
+                    id="statsTo"
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="bg-zinc-800 border-zinc-700 text-zinc-100"
+                  />
+                </div>
+              </div>
+              {from && to && from > to && (
+                <div className="text-xs text-purple-300">{t.invalidRange}</div>
+              )}
+              {data && data.vehicles.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setVehicleId(null)}
+                    className={toggleClass(vehicleId === null)}
+                  >
+                    {t.stats.allVehicles}
+                  </Button>
+                  {data.vehicles.map((v) => (
+                    <Button
+                      key={v.id}
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setVehicleId(v.id)}
+                      className={toggleClass(vehicleId === v.id)}
+                    >
+                      {v.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {error && <div className="text-sm text-purple-300">{error}</div>}
+
+          {data && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-900">
+                  <div className="text-xs text-zinc-400">{t.stats.daysBetweenFillUps}</div>
+                  <div className="text-lg font-semibold">{fillUpGap ?? "-"}</div>
+                </div>
+                <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-900">
+                  <div className="text-xs text-zinc-400">{t.stats.costPerKm}</div>
+                  <div className="text-lg font-semibold">{cycleKm > 0 ? formatCurrency(totalCost / cycleKm) : "-"}</div>
+                </div>
+              </div>
+
+              <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+                <CardHeader className="flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-base text-zinc-100">{t.stats.kmPerDriver}</CardTitle>
+                  <div className="flex gap-2">
+                    {(["week", "month"] as const).map((p) => (
+                      <Button
+                        key={p}
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => setPeriod(p)}
+                        className={toggleClass(period === p)}
+                      >
+                        {t.stats.periods[p]}
+                      </Button>
+                    ))}
+                  </div>
+                </CardHeader>
+                <CardContent className="grid gap-3">
+                  <KmChart periods={periods} drivers={data.drivers} />
+                  <div className="grid gap-1 text-sm">
+                    {Object.entries(kmBy).map(([id, km]) => (
+                      <div key={id} className="flex items-center justify-between">
+                        <span>{driverName(data.drivers, id)}</span>
+                        <span className="text-zinc-300">
+                          {t.stats.kmShare(roundKm(km), Math.round((km / totalKmOf(kmBy)) * 100))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base text-zinc-100">{t.stats.costPerCycle}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CycleCostChart cycles={cycles} />
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-sm bg-zinc-900 border-zinc-800">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base text-zinc-100">{t.stats.sharePerCycle}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ShareChart cycles={cycles} drivers={data.drivers} />
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
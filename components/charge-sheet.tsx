@@ -0,0 +1,136 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import type { Charge, Driver, DriverId } from "@/lib/database"
+import { formatCurrency } from "@/lib/format"
+import { toggleClass } from "@/lib/utils"
+import { Loader2, PlugZap } from "lucide-react"
+import { useEffect, useState } from "react"
+
+type ChargeSheetProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  drivers: Driver[]
+  sessionUser: DriverId
+  disabled: boolean
+  onSubmit: (charge: Charge) => Promise<void>
+}
+
+const LOCATIONS: Charge["location"][] = ["home", "public"]
+
+export function ChargeSheet({ open, onOpenChange, drivers, sessionUser, disabled, onSubmit }: ChargeSheetProps) {
+  const { t } = useI18n()
+  const [kWh, setKWh] = useState("")
+  const [pricePerKwh, setPricePerKwh] = useState("")
+  const [location, setLocation] = useState<Charge["location"]>("home")
+  const [paidBy, setPaidBy] = useState<DriverId>(sessionUser)
+
+  // The price is kept between sessions; it rarely changes at the same charger
+  useEffect(() => {
+    if (open) {
+      setKWh("")
+      setPaidBy(sessionUser)
+    }
+  }, [open, sessionUser])
+
+  const cost = Number(kWh) * Number(pricePerKwh)
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="bottom"
+        className="max-h-[85vh] overflow-y-auto bg-zinc-900 text-zinc-50 border-zinc-800 px-4 py-0 pb-4"
+      >
+        <SheetHeader>
+          <SheetTitle>{t.charge.title}</SheetTitle>
+          <SheetDescription className="text-zinc-400">
+            {t.charge.description}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="grid gap-4">
+          <div className="flex gap-4">
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="kWh" className="text-zinc-300">
+                {t.charge.energy}
+              </Label>
+              <Input
+                id="kWh"
+                inputMode="decimal"
+                value={kWh}
+                onChange={(e) => setKWh(e.target.value)}
+                placeholder={t.charge.energyPlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="pricePerKwh" className="text-zinc-300">
+                {t.charge.pricePerKwh}
+              </Label>
+              <Input
+                id="pricePerKwh"
+                inputMode="decimal"
+                value={pricePerKwh}
+                onChange={(e) => setPricePerKwh(e.target.value)}
+                placeholder={t.charge.pricePerKwhPlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-300">{t.charge.where}</Label>
+            <div className="flex flex-wrap gap-2">
+              {LOCATIONS.map((l) => (
+                <Button
+                  key={l}
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setLocation(l)}
+                  disabled={disabled}
+                  className={toggleClass(l === location)}
+                >
+                  {t.charge.locations[l]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-300">{t.charge.paidBy}</Label>
+            <div className="flex flex-wrap gap-2">
+              {drivers
+                .filter((d) => d.active)
+                .map((d) => (
+                  <Button
+                    key={d.id}
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setPaidBy(d.id)}
+                    disabled={disabled}
+                    className={toggleClass(d.id === paidBy)}
+                  >
+                    {d.name}
+                  </Button>
+                ))}
+            </div>
+          </div>
+          {Number.isFinite(cost) && cost > 0 && (
+            <div className="text-xs text-zinc-500">{t.charge.cost(formatCurrency(cost))}</div>
+          )}
+          <Button
+            onClick={() => onSubmit({ kWh: Number(kWh), pricePerKwh: Number(pricePerKwh), location, paidBy })}
+            className="h-12 bg-purple-600 hover:bg-purple-500 text-white border-0"
+            disabled={disabled || !kWh || !pricePerKwh}
+          >
+            {disabled ? <Loader2 className="h-4 w-4 animate-spin me-2" /> : <PlugZap className="me-2 h-5 w-5" />}
+            {t.charge.submit}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
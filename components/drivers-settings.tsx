@@ -0,0 +1,109 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Driver, DriverId } from "@/lib/database"
+import { cn } from "@/lib/utils"
+import { useEffect, useState } from "react"
+
+type DriversSettingsProps = {
+  drivers: Driver[]
+  sessionUser: DriverId
+  disabled: boolean
+  onRename: (id: DriverId, name: string) => Promise<void>
+  onSetActive: (id: DriverId, active: boolean) => Promise<void>
+  onAdd: (name: string, code: string) => Promise<boolean>
+}
+
+export function DriversSettings({ drivers, sessionUser, disabled, onRename, onSetActive, onAdd }: DriversSettingsProps) {
+  const { t } = useI18n()
+  const [names, setNames] = useState<Record<DriverId, string>>({})
+  const [newName, setNewName] = useState("")
+  const [newCode, setNewCode] = useState("")
+
+  useEffect(() => {
+    setNames(Object.fromEntries(drivers.map((d) => [d.id, d.name])))
+  }, [drivers])
+
+  async function add() {
+    if (await onAdd(newName, newCode)) {
+      setNewName("")
+      setNewCode("")
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-zinc-300">{t.drivers.title}</Label>
+      {drivers.map((d) => {
+        const renamed = (names[d.id] ?? d.name).trim() !== d.name
+        return (
+          <div key={d.id} className="flex items-center gap-2">
+            <Input
+              value={names[d.id] ?? d.name}
+              onChange={(e) => setNames({ ...names, [d.id]: e.target.value })}
+              className={cn(
+                "bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500",
+                !d.active && "text-zinc-500",
+              )}
+              disabled={disabled}
+            />
+            {renamed ? (
+              <Button
+                size="sm"
+                className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+                onClick={() => onRename(d.id, names[d.id])}
+                disabled={disabled}
+              >
+                {t.drivers.rename}
+              </Button>
+            ) : d.id === sessionUser ? (
+              <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+                {t.drivers.you}
+              </Badge>
+            ) : (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+                onClick={() => onSetActive(d.id, !d.active)}
+                disabled={disabled}
+              >
+                {d.active ? t.drivers.deactivate : t.drivers.activate}
+              </Button>
+            )}
+          </div>
+        )
+      })}
+      <div className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t.drivers.newDriver}
+          className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          disabled={disabled}
+        />
+        <Input
+          value={newCode}
+          onChange={(e) => setNewCode(e.target.value)}
+          inputMode="numeric"
+          placeholder={t.drivers.accessCode}
+          className="w-32 bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          disabled={disabled}
+        />
+        <Button
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+          onClick={add}
+          disabled={disabled || !newName.trim() || !newCode.trim()}
+        >
+          {t.drivers.add}
+        </Button>
+      </div>
+      <div className="text-xs text-zinc-500">{t.drivers.hint}</div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { Driver, DriverId, Entry } from "@/lib/database"
+import { driverName } from "@/lib/drivers"
+import { cn } from "@/lib/utils"
+import { useState } from "react"
+
+type EntryEditorProps = {
+  entry: Entry
+  drivers: Driver[]
+  disabled: boolean
+  onSave: (reading: number, attributedTo: DriverId) => Promise<boolean>
+  onDelete: () => Promise<boolean>
+}
+
+// Audit trail and edit controls shown under a mileage entry in the History sheet
+export function EntryEditor({ entry, drivers, disabled, onSave, onDelete }: EntryEditorProps) {
+  const { t, tag } = useI18n()
+  const [editing, setEditing] = useState(false)
+  const [reading, setReading] = useState("")
+  const [attributedTo, setAttributedTo] = useState<DriverId>("")
+
+  function startEditing() {
+    setReading(entry.reading != null ? String(entry.reading) : "")
+    setAttributedTo(entry.attributedTo ?? "")
+    setEditing(true)
+  }
+
+  async function save() {
+    if (await onSave(Number(reading), attributedTo)) {
+      setEditing(false)
+    }
+  }
+
+  async function remove() {
+    if (!confirm(t.history.confirmDelete)) return
+    await onDelete()
+  }
+
+  return (
+    <div className="mt-2 grid gap-2">
+      {entry.edits?.map((edit) => (
+        <div key={edit.editedAt} className="text-xs text-zinc-500">
+          {t.history.was(String(edit.reading ?? "-")) +
+            (entry.type === "entry" ? t.history.wasCreditedTo(driverName(drivers, edit.attributedTo)) : "") +
+            t.history.editedBy(driverName(drivers, edit.editedBy), new Date(edit.editedAt).toLocaleString(tag))}
+        </div>
+      ))}
+      {editing ? (
+        <div className="grid gap-2">
+          <Input
+            inputMode="numeric"
+            pattern="[0-9]*"
+            value={reading}
+            onChange={(e) => setReading(e.target.value)}
+            className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+            disabled={disabled}
+          />
+          {entry.type === "entry" && (
+            <div className="flex flex-wrap gap-2">
+              {drivers.map((d) => (
+                <Button
+                  key={d.id}
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setAttributedTo(d.id)}
+                  disabled={disabled}
+                  className={cn(
+                    "border-0",
+                    d.id === attributedTo
+                      ? "bg-purple-600 text-white hover:bg-purple-500"
+                      : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                  )}
+                >
+                  {d.name}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+              onClick={save}
+              disabled={disabled || !reading}
+            >
+              {t.save}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-zinc-300 hover:text-zinc-100 hover:bg-zinc-800"
+              onClick={() => setEditing(false)}
+              disabled={disabled}
+            >
+              {t.cancel}
+            </Button>
+            {entry.type !== "init" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ms-auto text-destructive-foreground hover:bg-zinc-800"
+                onClick={remove}
+                disabled={disabled}
+              >
+                {t.delete}
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="justify-self-end h-7 text-xs text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+          onClick={startEditing}
+          disabled={disabled}
+        >
+          {t.edit}
+        </Button>
+      )}
+    </div>
+  )
+}
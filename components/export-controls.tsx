@@ -0,0 +1,138 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Driver, DriverId, VehicleId } from "@/lib/database"
+import type { ExportFormat, ExportKind } from "@/lib/export"
+import type { Dictionary } from "@/lib/i18n"
+import { dayBound, toggleClass } from "@/lib/utils"
+import { Download, FileText } from "lucide-react"
+import Link from "next/link"
+import { useState } from "react"
+
+type ExportControlsProps = {
+  drivers: Driver[]
+  vehicleId: VehicleId
+}
+
+const DOWNLOADS: { kind: ExportKind; format: ExportFormat; label: keyof Dictionary["exports"] }[] = [
+  { kind: "entries", format: "csv", label: "entriesCsv" },
+  { kind: "entries", format: "json", label: "entriesJson" },
+  { kind: "resets", format: "csv", label: "resetsCsv" },
+  { kind: "resets", format: "json", label: "resetsJson" },
+]
+
+export function ExportControls({ drivers, vehicleId }: ExportControlsProps) {
+  const { t } = useI18n()
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [driver, setDriver] = useState<DriverId | null>(null)
+  const [allVehicles, setAllVehicles] = useState(false)
+
+  function hrefFor(kind: ExportKind, format: ExportFormat) {
+    const params = new URLSearchParams({
+      format,
+      kind,
+      from: String(dayBound(from, false) ?? ""),
+      to: String(dayBound(to, true) ?? ""),
+      driver: driver ?? "",
+    })
+    if (!allVehicles) {
+      params.set("vehicle", vehicleId)
+    }
+    return `/api/export?${params}`
+  }
+
+  return (
+    <div className="grid gap-3 rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+      <div className="text-sm font-medium">{t.exports.title}</div>
+      <div className="flex gap-4">
+        <div className="grid flex-1 gap-2">
+          <Label htmlFor="exportFrom" className="text-zinc-300">
+            {t.from}
+          </Label>
+          <Input
+            id="exportFrom"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-zinc-800 border-zinc-700 text-zinc-100"
+          />
+        </div>
+        <div className="grid flex-1 gap-2">
+          <Label htmlFor="exportTo" className="text-zinc-300">
+            {t.to}
+          </Label>
+          <Input
+            id="exportTo"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-zinc-800 border-zinc-700 text-zinc-100"
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="secondary" onClick={() => setDriver(null)} className={toggleClass(driver === null)}>
+          {t.allDrivers}
+        </Button>
+        {drivers.map((d) => (
+          <Button
+            key={d.id}
+            size="sm"
+            variant="secondary"
+            onClick={() => setDriver(d.id)}
+            className={toggleClass(driver === d.id)}
+          >
+            {d.name}
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {[false, true].map((all) => (
+          <Button
+            key={String(all)}
+            size="sm"
+            variant="secondary"
+            onClick={() => setAllVehicles(all)}
+            className={toggleClass(allVehicles === all)}
+          >
+            {all ? t.exports.allVehicles : t.exports.thisVehicle}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {DOWNLOADS.map(({ kind, format, label }) => (
+          <Button
+            key={`${kind}-${format}`}
+            asChild
+            size="sm"
+            variant="secondary"
+            className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+          >
+            <a href={hrefFor(kind, format)} download>
+              <Download className="me-2 h-4 w-4" />
+              {t.exports[label]}
+            </a>
+          </Button>
+        ))}
+        <Button
+          asChild
+          size="sm"
+          variant="secondary"
+          className="col-span-2 bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+        >
+          <Link href="/statement">
+            <FileText className="me-2 h-4 w-4" />
+            {t.exports.statement}
+          </Link>
+        </Button>
+      </div>
+      {from && to && from > to && (
+        <div className="text-xs text-purple-300">{t.invalidRange}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import type { Driver, DriverId, FillUp } from "@/lib/database"
+import { cn } from "@/lib/utils"
+import { Loader2, Send } from "lucide-react"
+import { useEffect, useState } from "react"
+
+type FillUpSheetProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  drivers: Driver[]
+  sessionUser: DriverId
+  disabled: boolean
+  onSubmit: (fillUp: FillUp) => Promise<void>
+}
+
+export function FillUpSheet({ open, onOpenChange, drivers, sessionUser, disabled, onSubmit }: FillUpSheetProps) {
+  const { t } = useI18n()
+  const [liters, setLiters] = useState("")
+  const [amountPaid, setAmountPaid] = useState("")
+  const [paidBy, setPaidBy] = useState<DriverId>(sessionUser)
+  const [station, setStation] = useState("")
+
+  // Whoever opens the form is usually the one standing at the pump
+  useEffect(() => {
+    if (open) {
+      setLiters("")
+      setAmountPaid("")
+      setPaidBy(sessionUser)
+      setStation("")
+    }
+  }, [open, sessionUser])
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="bottom"
+        className="max-h-[85vh] overflow-y-auto bg-zinc-900 text-zinc-50 border-zinc-800 px-4 py-0 pb-4"
+      >
+        <SheetHeader>
+          <SheetTitle>{t.fillUp.title}</SheetTitle>
+          <SheetDescription className="text-zinc-400">
+            {t.fillUp.description}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="grid gap-4">
+          <div className="flex gap-4">
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="liters" className="text-zinc-300">
+                {t.fillUp.liters}
+              </Label>
+              <Input
+                id="liters"
+                inputMode="decimal"
+                value={liters}
+                onChange={(e) => setLiters(e.target.value)}
+                placeholder={t.fillUp.litersPlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="amountPaid" className="text-zinc-300">
+                {t.fillUp.amountPaid}
+              </Label>
+              <Input
+                id="amountPaid"
+                inputMode="decimal"
+                value={amountPaid}
+                onChange={(e) => setAmountPaid(e.target.value)}
+                placeholder={t.fillUp.amountPlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-300">{t.fillUp.paidBy}</Label>
+            <div className="flex flex-wrap gap-2">
+              {drivers
+                .filter((d) => d.active)
+                .map((d) => (
+                  <Button
+                    key={d.id}
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setPaidBy(d.id)}
+                    disabled={disabled}
+                    className={cn(
+                      "border-0",
+                      d.id === paidBy
+                        ? "bg-purple-600 text-white hover:bg-purple-500"
+                        : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+                    )}
+                  >
+                    {d.name}
+                  </Button>
+                ))}
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="station" className="text-zinc-300">
+              {t.fillUp.station}
+            </Label>
+            <Input
+              id="station"
+              value={station}
+              onChange={(e) => setStation(e.target.value)}
+              placeholder={t.fillUp.stationPlaceholder}
+              className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+              disabled={disabled}
+            />
+          </div>
+          <Button
+            onClick={() => onSubmit({ liters: Number(liters), amountPaid: Number(amountPaid), paidBy, station })}
+            className="h-12 bg-purple-900 hover:bg-purple-800 text-purple-50 border-0"
+            disabled={disabled || !liters || !amountPaid}
+          >
+            {disabled ? <Loader2 className="h-4 w-4 animate-spin me-2" /> : <Send className="me-2 h-5 w-5" />}
+            {t.mileage.resetAndShare}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,285 @@
+"use client"
+
+import { EntryEditor } from "@/components/entry-editor"
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import type { Driver, DriverId, Entry, Obligation, RemovedEntry } from "@/lib/database"
+import { driverName, roundKm, splitKm, totalKmOf } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import { chargeCost, settledAmount } from "@/lib/settlement"
+
+type HistoryEntryCardProps = {
+  entry: Entry
+  drivers: Driver[]
+  ledger: Obligation[]
+  disabled: boolean
+  onEdit: (reading: number, attributedTo: DriverId) => Promise<boolean>
+  onDelete: () => Promise<boolean>
+}
+
+export function HistoryEntryCard({ entry, drivers, ledger, disabled, onEdit, onDelete }: HistoryEntryCardProps) {
+  const { t, tag } = useI18n()
+  const d = new Date(entry.timestamp).toLocaleString(tag)
+
+  function removedNote(type: Entry["type"], removed: RemovedEntry): string {
+    const at = new Date(removed.timestamp).toLocaleString(tag)
+    if (type === "revert") return t.history.resetReverted(at)
+    const names = (removed.creditedTo ?? []).map((id) => driverName(drivers, id))
+    return t.history.entryRemoved(at, String(removed.reading ?? "-"), new Intl.ListFormat(tag).format(names))
+  }
+  if (entry.type === "reset") {
+    return (
+      <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex items-center justify-between">
+          <div className="font-medium">{t.history.reset}</div>
+          <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+            {d}
+          </Badge>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm">
+          {entry.fillUp && (
+            <div className="text-xs text-zinc-500 mb-1">
+              {t.history.fillUp(
+                entry.fillUp.liters,
+                entry.fillUp.station,
+                driverName(drivers, entry.fillUp.paidBy),
+              )}
+            </div>
+          )}
+          {entry.snapshot?.charged != null && (
+            <div className="text-xs text-zinc-500 mb-1">
+              {t.history.charged(formatCurrency(entry.snapshot.charged))}
+            </div>
+          )}
+          {entry.snapshot ? (
+            Object.entries(entry.snapshot.kmBy).map(([id, km]) => (
+              <div key={id} className="flex items-center justify-between">
+                <span>{driverName(drivers, id)}</span>
+                <span>
+                  {`${roundKm(km)} ${t.km} • ${formatCurrency(
+                    entry.snapshot!.shares?.[id] ?? km * entry.snapshot!.pricePerKm,
+                  )}`}
+                </span>
+              </div>
+            ))
+          ) : (
+            <div className="text-zinc-500">-</div>
+          )}
+          <Separator className="my-2 bg-zinc-800" />
+          <div className="flex items-center justify-between">
+            <span>{t.history.total}</span>
+            <span className="font-medium">
+              {entry.snapshot
+                ? `${roundKm(entry.snapshot.totalKm)} ${t.km} • ${formatCurrency(settledAmount(entry))}`
+                : "-"}
+            </span>
+          </div>
+          {entry.snapshot?.segments && entry.snapshot.segments.length > 1 && (
+            <div className="text-xs text-zinc-500">
+              {entry.snapshot.segments.map((s) => {
+                const km = totalKmOf(s.kmBy)
+                return (
+                  <div key={s.pricePerKm} className="flex items-center justify-between">
+                    <span>{t.history.atPrice(formatCurrency(s.pricePerKm))}</span>
+                    <span>{`${roundKm(km)} ${t.km} • ${formatCurrency(km * s.pricePerKm)}`}</span>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+          {entry.snapshot?.transfers?.map((transfer) => (
+            <div key={`${transfer.from}-${transfer.to}`} className="flex items-center justify-between text-purple-300">
+              <span>
+                {`${driverName(drivers, transfer.from)} → ${driverName(drivers, transfer.to)}`}
+              </span>
+              <span>{formatCurrency(transfer.amount)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+  if (entry.type === "charge" && entry.charge) {
+    return (
+      <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex items-center justify-between">
+          <div className="font-medium flex items-center gap-2">
+            <span>{t.history.charging}</span>
+            <Badge variant="outline" className="ms-1 border-purple-500/40 text-purple-300">
+              {entry.charge.location === "home" ? t.history.home : t.history.public}
+            </Badge>
+          </div>
+          <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+            {d}
+          </Badge>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span>{`${entry.charge.kWh} kWh × ${formatCurrency(entry.charge.pricePerKwh)}`}</span>
+            <span className="font-medium">{formatCurrency(chargeCost(entry.charge))}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>{t.history.paidBy}</span>
+            <span className="text-purple-300">{driverName(drivers, entry.charge.paidBy)}</span>
+          </div>
+        </div>
+      </div>
+    )
+  }
+  if (entry.type === "price" && entry.price) {
+    return (
+      <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex items-center justify-between">
+          <div className="font-medium">{t.history.priceChange}</div>
+          <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+            {d}
+          </Badge>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span>{t.history.pricePerKm}</span>
+            <span className="font-medium text-purple-300">
+              {`${formatCurrency(entry.price.previous)} → ${formatCurrency(entry.price.pricePerKm)}`}
+            </span>
+          </div>
+          {entry.enteredBy && (
+            <div className="flex items-center justify-between">
+              <span>{t.history.changedBy}</span>
+              <span>{driverName(drivers, entry.enteredBy)}</span>
+            </div>
+          )}
+          {entry.note && <div className="text-xs text-zinc-500 mt-1">{entry.note}</div>}
+        </div>
+      </div>
+    )
+  }
+  if (entry.type === "revert" || entry.type === "removal") {
+    return (
+      <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex items-center justify-between">
+          <div className="font-medium">
+            {entry.type === "revert" ? t.history.resetUndone : t.history.entryDeleted}
+          </div>
+          <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+            {d}
+          </Badge>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm">
+          {entry.snapshot && (
+            <div className="flex items-center justify-between text-zinc-400">
+              <span>{t.history.revertedTotal}</span>
+              <span>
+                {`${roundKm(entry.snapshot.totalKm)} ${t.km} • ${formatCurrency(settledAmount(entry))}`}
+              </span>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <span>{entry.type === "revert" ? t.history.undoneBy : t.history.deletedBy}</span>
+            <span>{driverName(drivers, entry.enteredBy)}</span>
+          </div>
+          {entry.removed ? (
+            <div className="text-xs text-zinc-500 mt-1">{removedNote(entry.type, entry.removed)}</div>
+          ) : (
+            entry.note && <div className="text-xs text-zinc-500 mt-1">{entry.note}</div>
+          )}
+        </div>
+      </div>
+    )
+  }
+  if (entry.type === "payment" && entry.payment) {
+    const obligation = ledger.find((o) => o.id === entry.payment!.obligationId)
+    return (
+      <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex items-center justify-between">
+          <div className="font-medium">{t.history.payment}</div>
+          <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+            {d}
+          </Badge>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm">
+          <div className="flex items-center justify-between text-purple-300">
+            <span>
+              {`${driverName(drivers, entry.payment.from)} → ${driverName(
+                drivers,
+                entry.payment.to,
+              )}`}
+            </span>
+            <span className="font-medium">{formatCurrency(entry.payment.amount)}</span>
+          </div>
+          {obligation && (
+            <div className="text-xs text-zinc-500">
+              {t.history.paidOf(formatCurrency(obligation.paid), formatCurrency(obligation.amount))}
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+  // entry, shared trip or init
+  return (
+    <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+      <div className="flex items-center justify-between">
+        <div className="font-medium flex items-center gap-2">
+          <span>
+            {entry.type === "init"
+              ? t.history.initialReading
+              : entry.type === "shared"
+                ? t.history.sharedTrip
+                : t.history.mileageEntry}
+          </span>
+          {entry.type !== "init" && entry.deltaKm != null && (
+            <Badge variant="outline" className="ms-1 border-purple-500/40 text-purple-300">
+              {`${entry.deltaKm} ${t.km}`}
+            </Badge>
+          )}
+        </div>
+        <Badge variant="secondary" className="bg-zinc-800 text-zinc-200 border-0">
+          {d}
+        </Badge>
+      </div>
+      <div className="mt-2 grid gap-1 text-sm">
+        <div className="flex items-center justify-between">
+          <span>{t.history.reading}</span>
+          <span className="font-medium">{entry.reading != null ? `${entry.reading} ${t.km}` : "-"}</span>
+        </div>
+        {entry.type === "entry" && (
+          <>
+            <div className="flex items-center justify-between">
+              <span>{t.history.enteredBy}</span>
+              <span>{driverName(drivers, entry.enteredBy)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>{t.history.creditedTo}</span>
+              <span className="font-medium text-purple-300">
+                {driverName(drivers, entry.attributedTo)}
+              </span>
+            </div>
+          </>
+        )}
+        {entry.type === "shared" && (
+          <>
+            <div className="flex items-center justify-between">
+              <span>{t.history.enteredBy}</span>
+              <span>{driverName(drivers, entry.enteredBy)}</span>
+            </div>
+            {Object.entries(splitKm(entry.deltaKm ?? 0, entry.split ?? {})).map(([id, km]) => (
+              <div key={id} className="flex items-center justify-between">
+                <span>{`${driverName(drivers, id)} (${entry.split![id]}%)`}</span>
+                <span className="font-medium text-purple-300">{`${km} ${t.km}`}</span>
+              </div>
+            ))}
+          </>
+        )}
+        {entry.note && <div className="text-xs text-zinc-500 mt-1">{entry.note}</div>}
+      </div>
+      <EntryEditor
+        entry={entry}
+        drivers={drivers}
+        disabled={disabled}
+        onSave={onEdit}
+        onDelete={onDelete}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { HistoryEntryCard } from "@/components/history-entry-card"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Driver, DriverId, Entry, Obligation, VehicleId } from "@/lib/database"
+import type { HistoryCycle, HistoryFilter, HistoryPage } from "@/lib/history"
+import type { Dictionary } from "@/lib/i18n"
+import { dayBound, toggleClass } from "@/lib/utils"
+import { Loader2 } from "lucide-react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+type HistoryListProps = {
+  vehicleId: VehicleId
+  // Reloads the first page whenever the state changes
+  version: number
+  drivers: Driver[]
+  ledger: Obligation[]
+  disabled: boolean
+  onLoad: (filter: HistoryFilter, before: number | null) => Promise<HistoryPage>
+  onEdit: (entry: Entry, reading: number, attributedTo: DriverId) => Promise<boolean>
+  onDelete: (entry: Entry) => Promise<boolean>
+}
+
+const TYPE_GROUPS: { label: keyof Dictionary["history"]["types"]; types: Entry["type"][] }[] = [
+  { label: "mileage", types: ["init", "entry", "shared"] },
+  { label: "resets", types: ["reset"] },
+  { label: "charging", types: ["charge"] },
+  { label: "payments", types: ["payment"] },
+  { label: "prices", types: ["price"] },
+  { label: "corrections", types: ["revert", "removal"] },
+]
+
+function cycleTitle(cycle: HistoryCycle, t: Dictionary, tag: string): string {
+  const opened = cycle.openedAt !== null ? new Date(cycle.openedAt).toLocaleDateString(tag) : null
+  if (cycle.closedAt === null) {
+    return opened ? t.history.currentCycleSince(opened) : t.history.currentCycle
+  }
+  const closed = new Date(cycle.closedAt).toLocaleDateString(tag)
+  return opened ? t.history.cycle(opened, closed) : t.history.cycleUntil(closed)
+}
+
+// The History sheet's entries, paged from the server and grouped by reset cycle
+export function HistoryList({
+  vehicleId,
+  version,
+  drivers,
+  ledger,
+  disabled,
+  onLoad,
+  onEdit,
+  onDelete,
+}: HistoryListProps) {
+  const { t, tag } = useI18n()
+  const [driver, setDriver] = useState<DriverId | null>(null)
+  const [groups, setGroups] = useState<string[]>([])
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [cycles, setCycles] = useState<HistoryCycle[]>([])
+  const [before, setBefore] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Only the latest request may update the list when filters change quickly
+  const latestRequest = useRef(0)
+
+  const invalidRange = Boolean(from && to && from > to)
+  const filter = useMemo<HistoryFilter>(
+    () => ({
+      driver,
+      types: TYPE_GROUPS.filter((g) => groups.includes(g.label)).flatMap((g) => g.types),
+      from: dayBound(from, false),
+      to: dayBound(to, true),
+    }),
+    [driver, groups, from, to],
+  )
+  // The page passes a new loader on every render; the list reloads when the filter or the version changes
+  const load = useRef(onLoad)
+  useEffect(() => {
+    load.current = onLoad
+  })
+
+  const loadPage = useCallback(async (cursor: number | null) => {
+    const request = ++latestRequest.current
+    setLoading(true)
+    try {
+      const page = await load.current(filter, cursor)
+      if (request !== latestRequest.current) return
+      setCycles((loaded) => (cursor === null ? page.cycles : [...loaded, ...page.cycles]))
+      setBefore(page.before)
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load history:", err)
+      if (request === latestRequest.current) setError(t.errors.loadHistory)
+    } finally {
+      if (request === latestRequest.current) setLoading(false)
+    }
+  }, [filter, t])
+
+  useEffect(() => {
+    if (!invalidRange) loadPage(null)
+  }, [vehicleId, version, invalidRange, loadPage])
+
+  function toggleGroup(label: string) {
+    setGroups((selected) => (selected.includes(label) ? selected.filter((l) => l !== label) : [...selected, label]))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => setDriver(null)}
+            className={toggleClass(driver === null)}
+          >
+            {t.allDrivers}
+          </Button>
+          {drivers.map((d) => (
+            <Button
+              key={d.id}
+              size="sm"
+              variant="secondary"
+              onClick={() => setDriver(d.id)}
+              className={toggleClass(driver === d.id)}
+            >
+              {d.name}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TYPE_GROUPS.map((g) => (
+            <Button
+              key={g.label}
+              size="sm"
+              variant="secondary"
+              onClick={() => toggleGroup(g.label)}
+              className={toggleClass(groups.includes(g.label))}
+            >
+              {t.history.types[g.label]}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-4">
+          <div className="grid flex-1 gap-2">
+            <Label htmlFor="historyFrom" className="text-zinc-300">
+              {t.from}
+            </Label>
+            <Input
+              id="historyFrom"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="bg-zinc-800 border-zinc-700 text-zinc-100"
+            />
+          </div>
+          <div className="grid flex-1 gap-2">
+            <Label htmlFor="historyTo" className="text-zinc-300">
+              {t.to}
+            </Label>
+            <Input
+              id="historyTo"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="bg-zinc-800 border-zinc-700 text-zinc-100"
+            />
+          </div>
+        </div>
+        {invalidRange && <div className="text-xs text-purple-300">{t.invalidRange}</div>}
+      </div>
+
+      {error && <div className="text-sm text-purple-300">{error}</div>}
+      {!loading && !error && cycles.length === 0 && <div className="text-sm text-zinc-400">{t.history.empty}</div>}
+      {cycles.map((cycle) => (
+        <div key={cycle.closedAt ?? "current"} className="space-y-3">
+          <div className="pt-2 text-xs font-medium uppercase tracking-wide text-zinc-500">
+            {cycleTitle(cycle, t, tag)}
+          </div>
+          {cycle.entries.map((e) => (
+            <HistoryEntryCard
+              key={e.id}
+              entry={e}
+              drivers={drivers}
+              ledger={ledger}
+              disabled={disabled}
+              onEdit={(reading, attributedTo) => onEdit(e, reading, attributedTo)}
+              onDelete={() => onDelete(e)}
+            />
+          ))}
+        </div>
+      ))}
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />
+        </div>
+      ) : (
+        before !== null && (
+          <Button
+            variant="secondary"
+            className="w-full bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+            onClick={() => loadPage(before)}
+          >
+            {t.history.loadOlder}
+          </Button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { DICTIONARIES, LOCALE_TAGS, type Dictionary, type Locale } from "@/lib/i18n"
+import { createContext, useContext, type ReactNode } from "react"
+
+type I18n = {
+  locale: Locale
+  // BCP 47 tag for dates and numbers
+  tag: string
+  t: Dictionary
+}
+
+const I18nContext = createContext<I18n>({ locale: "en", tag: LOCALE_TAGS.en, t: DICTIONARIES.en })
+
+// The locale comes from the cookie read by the root layout, so it's already right on the first render
+export function I18nProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return (
+    <I18nContext.Provider value={{ locale, tag: LOCALE_TAGS[locale], t: DICTIONARIES[locale] }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext)
+}
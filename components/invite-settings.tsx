@@ -0,0 +1,77 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useState } from "react"
+
+type InviteSettingsProps = {
+  disabled: boolean
+  onInvite: () => Promise<string | null>
+  onInviteNewGroup: (groupName: string) => Promise<string | null>
+}
+
+function inviteLink(code: string) {
+  return `${window.location.origin}/join?code=${encodeURIComponent(code)}`
+}
+
+export function InviteSettings({ disabled, onInvite, onInviteNewGroup }: InviteSettingsProps) {
+  const { t } = useI18n()
+  const [groupName, setGroupName] = useState("")
+  const [link, setLink] = useState<string | null>(null)
+
+  async function invite(create: () => Promise<string | null>) {
+    const code = await create()
+    if (code) setLink(inviteLink(code))
+  }
+
+  async function copy() {
+    if (!link) return
+    try {
+      await navigator.clipboard.writeText(link)
+    } catch {
+      // Clipboard access can be denied; the link stays visible for manual copying
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-zinc-300">{t.invites.title}</Label>
+      <Button
+        variant="secondary"
+        className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+        onClick={() => invite(onInvite)}
+        disabled={disabled}
+      >
+        {t.invites.inviteDriver}
+      </Button>
+      <div className="flex items-center gap-2">
+        <Input
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          placeholder={t.invites.groupName}
+          className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          disabled={disabled}
+        />
+        <Button
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+          onClick={() => invite(() => onInviteNewGroup(groupName))}
+          disabled={disabled || !groupName.trim()}
+        >
+          {t.invites.create}
+        </Button>
+      </div>
+      {link && (
+        <div className="flex items-center gap-2">
+          <Input readOnly value={link} className="bg-zinc-950 border-zinc-800 text-zinc-300" />
+          <Button size="sm" variant="secondary" className="bg-zinc-800 text-zinc-100 border-0" onClick={copy}>
+            {t.invites.copy}
+          </Button>
+        </div>
+      )}
+      <div className="text-xs text-zinc-500">{t.invites.hint}</div>
+    </div>
+  )
+}
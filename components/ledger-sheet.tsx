@@ -0,0 +1,133 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import type { Driver, Obligation, Vehicle } from "@/lib/database"
+import { driverName } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import { obligationStatus, remainingOf } from "@/lib/settlement"
+import { vehicleName } from "@/lib/vehicles"
+import { cn } from "@/lib/utils"
+import { useEffect, useState } from "react"
+
+type LedgerSheetProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  ledger: Obligation[]
+  drivers: Driver[]
+  vehicles: Vehicle[]
+  disabled: boolean
+  onPay: (obligationId: string, amount: number) => Promise<boolean>
+}
+
+function ObligationRow({
+  obligation,
+  drivers,
+  vehicles,
+  disabled,
+  onPay,
+}: { obligation: Obligation } & Pick<LedgerSheetProps, "drivers" | "vehicles" | "disabled" | "onPay">) {
+  const { t, tag } = useI18n()
+  const status = obligationStatus(obligation)
+  const created = new Date(obligation.createdAt).toLocaleDateString(tag)
+  const [amount, setAmount] = useState("")
+
+  // Default to paying off whatever is left
+  useEffect(() => {
+    setAmount(String(remainingOf(obligation)))
+  }, [obligation])
+
+  return (
+    <div className="rounded-lg border border-zinc-800 p-3 bg-zinc-950">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">
+          {`${driverName(drivers, obligation.from)} → ${driverName(drivers, obligation.to)}`}
+        </div>
+        <Badge
+          variant="secondary"
+          className={cn(
+            "border-0",
+            status === "settled" ? "bg-zinc-800 text-zinc-400" : "bg-purple-950 text-purple-300",
+          )}
+        >
+          {t.ledger.status[status]}
+        </Badge>
+      </div>
+      <div className="mt-2 grid gap-1 text-sm">
+        <div className="flex items-center justify-between">
+          <span>{t.ledger.owed}</span>
+          <span className="font-medium">{formatCurrency(obligation.amount)}</span>
+        </div>
+        {obligation.paid > 0 && (
+          <div className="flex items-center justify-between">
+            <span>{t.ledger.paid}</span>
+            <span>{formatCurrency(obligation.paid)}</span>
+          </div>
+        )}
+        <div className="text-xs text-zinc-500">
+          {`${vehicleName(vehicles, obligation.vehicleId)} • ${created}`}
+        </div>
+      </div>
+      {status !== "settled" && (
+        <div className="mt-2 flex items-center gap-2">
+          <Input
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+            disabled={disabled}
+          />
+          <Button
+            size="sm"
+            className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+            onClick={() => onPay(obligation.id, Number(amount))}
+            disabled={disabled || !amount}
+          >
+            {t.ledger.markPaid}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Every obligation of the group, outstanding ones first
+export function LedgerSheet({ open, onOpenChange, ledger, drivers, vehicles, disabled, onPay }: LedgerSheetProps) {
+  const { t } = useI18n()
+  const obligations = ledger
+    .slice()
+    .reverse()
+    .sort((a, b) => Number(obligationStatus(a) === "settled") - Number(obligationStatus(b) === "settled"))
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="bottom"
+        className="max-h-[85vh] overflow-y-auto bg-zinc-900 text-zinc-50 border-zinc-800 px-4 py-0 pb-4"
+      >
+        <SheetHeader>
+          <SheetTitle>{t.ledger.title}</SheetTitle>
+          <SheetDescription className="text-zinc-400">
+            {t.ledger.description}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="space-y-3">
+          {obligations.length === 0 && <div className="text-sm text-zinc-400">{t.ledger.empty}</div>}
+          {obligations.map((o) => (
+            <ObligationRow
+              key={o.id}
+              obligation={o}
+              drivers={drivers}
+              vehicles={vehicles}
+              disabled={disabled}
+              onPay={onPay}
+            />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  DEFAULT_TEMPLATES,
+  PLACEHOLDERS,
+  renderResetMessage,
+  sampleSummary,
+  type MessageLine,
+  type MessageLocale,
+  type MessageSettings,
+  type MessageTemplate,
+} from "@/lib/messages"
+import { cn, toggleClass } from "@/lib/utils"
+import { useEffect, useMemo, useState } from "react"
+
+type MessageTemplateSettingsProps = {
+  vehicle: string
+  names: string[]
+  disabled: boolean
+  onLoad: () => Promise<MessageSettings>
+  onSave: (settings: MessageSettings) => Promise<boolean>
+}
+
+const LOCALES: { locale: MessageLocale; label: string }[] = [
+  { locale: "he", label: "עברית" },
+  { locale: "en", label: "English" },
+]
+
+const LINES: MessageLine[] = [
+  "title",
+  "fillUp",
+  "station",
+  "charging",
+  "totalsHeader",
+  "driver",
+  "total",
+  "odometer",
+  "transfersHeader",
+  "transfer",
+  "nothingToSettle",
+]
+
+function sameTemplate(a: MessageTemplate, b: MessageTemplate) {
+  return LINES.every((line) => a[line] === b[line])
+}
+
+// The group's reset message, one line per field, with a preview using the group's names
+export function MessageTemplateSettings({ vehicle, names, disabled, onLoad, onSave }: MessageTemplateSettingsProps) {
+  const { t } = useI18n()
+  const [saved, setSaved] = useState<MessageSettings | null>(null)
+  const [locale, setLocale] = useState<MessageLocale>("en")
+  const [template, setTemplate] = useState<MessageTemplate>(DEFAULT_TEMPLATES.en)
+  const [focused, setFocused] = useState<MessageLine>("title")
+  const [loadFailed, setLoadFailed] = useState(false)
+  // Dates in the message follow the zone of whoever saved the settings
+  const timeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, [])
+
+  useEffect(() => {
+    onLoad()
+      .then((loaded) => {
+        setSaved(loaded)
+        setLocale(loaded.locale)
+        setTemplate(loaded.template)
+      })
+      .catch((err) => {
+        console.error("Failed to load the message settings:", err)
+        setLoadFailed(true)
+      })
+    // onLoad is a server action, so this runs once when the settings sheet opens
+  }, [onLoad])
+
+  // Untouched defaults follow the language; edited lines are kept
+  function changeLocale(next: MessageLocale) {
+    if (sameTemplate(template, DEFAULT_TEMPLATES[locale])) {
+      setTemplate(DEFAULT_TEMPLATES[next])
+    }
+    setLocale(next)
+  }
+
+  const settings: MessageSettings = { locale, timeZone, template }
+  const preview = renderResetMessage(sampleSummary(vehicle, names, Date.now()), settings)
+  const changed = !saved || saved.locale !== locale || !sameTemplate(saved.template, template)
+
+  async function save() {
+    if (await onSave(settings)) setSaved(settings)
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-zinc-300">{t.message.title}</Label>
+      {loadFailed && <div className="text-xs text-purple-300">{t.message.loadFailed}</div>}
+      {saved && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {LOCALES.map((l) => (
+              <Button
+                key={l.locale}
+                size="sm"
+                variant="secondary"
+                onClick={() => changeLocale(l.locale)}
+                className={toggleClass(locale === l.locale)}
+                disabled={disabled}
+              >
+                {l.label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setTemplate(DEFAULT_TEMPLATES[locale])}
+              className="ms-auto bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+              disabled={disabled || sameTemplate(template, DEFAULT_TEMPLATES[locale])}
+            >
+              {t.message.restoreDefaults}
+            </Button>
+          </div>
+          {LINES.map((line) => (
+            <div key={line} className="grid gap-1">
+              <Label htmlFor={`message-${line}`} className="text-xs text-zinc-400">
+                {t.message.lines[line]}
+              </Label>
+              <Input
+                id={`message-${line}`}
+                dir="auto"
+                value={template[line]}
+                onChange={(e) => setTemplate({ ...template, [line]: e.target.value })}
+                onFocus={() => setFocused(line)}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          <div className="text-xs text-zinc-500">
+            {t.message.placeholders(PLACEHOLDERS[focused].map((p) => `{${p}}`).join(" "))}
+            {t.message.blankLines}
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs text-zinc-400">{t.message.preview}</div>
+            <pre
+              dir="auto"
+              className={cn(
+                "whitespace-pre-wrap rounded-lg border border-zinc-800 bg-zinc-950 p-3",
+                "font-sans text-sm text-zinc-200",
+              )}
+            >
+              {preview}
+            </pre>
+          </div>
+          <Button
+            className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+            onClick={save}
+            disabled={disabled || !changed}
+          >
+            {t.message.save}
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
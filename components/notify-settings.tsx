@@ -0,0 +1,132 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { NotifyChannel, NotifyDestination } from "@/lib/database"
+import type { NotificationSettings } from "@/lib/notifiers"
+import { toggleClass } from "@/lib/utils"
+import { useEffect, useState } from "react"
+
+type NotifySettingsProps = {
+  disabled: boolean
+  onLoad: () => Promise<NotificationSettings>
+  onSave: (destination: NotifyDestination | null) => Promise<boolean>
+  onTest: () => Promise<boolean>
+}
+
+const INPUT_TYPES: Record<NotifyChannel, string> = {
+  whatsapp: "tel",
+  telegram: "text",
+  email: "email",
+  webhook: "url",
+}
+
+// The signed-in driver's own destination for reset summaries
+export function NotifySettings({ disabled, onLoad, onSave, onTest }: NotifySettingsProps) {
+  const { t } = useI18n()
+  const [settings, setSettings] = useState<NotificationSettings | null>(null)
+  const [channel, setChannel] = useState<NotifyChannel | null>(null)
+  const [to, setTo] = useState("")
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [tested, setTested] = useState(false)
+
+  useEffect(() => {
+    onLoad()
+      .then((loaded) => {
+        setSettings(loaded)
+        setChannel(loaded.destination?.channel ?? null)
+        setTo(loaded.destination?.to ?? "")
+      })
+      .catch((err) => {
+        console.error("Failed to load notification settings:", err)
+        setLoadFailed(true)
+      })
+    // onLoad is a server action, so this runs once when the settings sheet opens
+  }, [onLoad])
+
+  async function save() {
+    const destination = channel ? { channel, to: to.trim() } : null
+    if (await onSave(destination)) {
+      setSettings((current) => current && { ...current, destination })
+      setTested(false)
+    }
+  }
+
+  async function test() {
+    setTested(await onTest())
+  }
+
+  const saved = settings?.destination ?? null
+  const changed = (channel ?? null) !== (saved?.channel ?? null) || (channel !== null && to.trim() !== saved?.to)
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-zinc-300">{t.notify.title}</Label>
+      {loadFailed && <div className="text-xs text-purple-300">{t.notify.loadFailed}</div>}
+      {settings && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setChannel(null)}
+              className={toggleClass(channel === null)}
+              disabled={disabled}
+            >
+              {t.notify.byHand}
+            </Button>
+            {settings.channels.map((c) => (
+              <Button
+                key={c}
+                size="sm"
+                variant="secondary"
+                onClick={() => setChannel(c)}
+                className={toggleClass(channel === c)}
+                disabled={disabled}
+              >
+                {t.notify.channels[c]}
+              </Button>
+            ))}
+          </div>
+          {channel && (
+            <Input
+              type={INPUT_TYPES[channel]}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder={t.notify.placeholders[channel]}
+              className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+              disabled={disabled}
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+              onClick={save}
+              disabled={disabled || !changed || (channel !== null && !to.trim())}
+            >
+              {t.save}
+            </Button>
+            {saved && !changed && (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+                onClick={test}
+                disabled={disabled}
+              >
+                {t.notify.sendTest}
+              </Button>
+            )}
+          </div>
+          {tested && <div className="text-xs text-zinc-400">{t.notify.testSent}</div>}
+          <div className="text-xs text-zinc-500">
+            {saved ? t.notify.automatic : t.notify.manual}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
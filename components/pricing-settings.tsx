@@ -0,0 +1,134 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { MeasuredConsumption, Pricing } from "@/lib/database"
+import { formatCurrency } from "@/lib/format"
+import { consumptionPricePerKm } from "@/lib/pricing"
+import { cn } from "@/lib/utils"
+
+// Raw input values, kept as typed until Save
+export type PricingInput = {
+  mode: Pricing["mode"]
+  pricePerKm: string
+  fuelPricePerLiter: string
+  litersPer100Km: string
+}
+
+type PricingSettingsProps = {
+  value: PricingInput
+  onChange: (value: PricingInput) => void
+  measured: MeasuredConsumption | null
+  disabled: boolean
+  onImport: () => Promise<boolean>
+}
+
+const MODES: Pricing["mode"][] = ["perKm", "consumption"]
+
+export function PricingSettings({ value, onChange, measured, disabled, onImport }: PricingSettingsProps) {
+  const { t } = useI18n()
+  const fuelPrice = Number(value.fuelPricePerLiter)
+  const consumption = Number(value.litersPer100Km)
+  const derived = fuelPrice > 0 && consumption > 0 ? consumptionPricePerKm(fuelPrice, consumption) : null
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap gap-2">
+        {MODES.map((mode) => (
+          <Button
+            key={mode}
+            size="sm"
+            variant="secondary"
+            onClick={() => onChange({ ...value, mode })}
+            className={cn(
+              "border-0",
+              value.mode === mode
+                ? "bg-purple-600 text-white hover:bg-purple-500"
+                : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+            )}
+          >
+            {t.pricing.modes[mode]}
+          </Button>
+        ))}
+      </div>
+      {value.mode === "perKm" ? (
+        <div className="grid gap-2">
+          <Label htmlFor="price" className="text-zinc-300">
+            {t.pricing.pricePerKm}
+          </Label>
+          <Input
+            id="price"
+            inputMode="decimal"
+            value={value.pricePerKm}
+            onChange={(e) => onChange({ ...value, pricePerKm: e.target.value })}
+            placeholder={t.pricing.pricePerKmPlaceholder}
+            className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          />
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-4">
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="fuelPrice" className="text-zinc-300">
+                {t.pricing.fuelPrice}
+              </Label>
+              <Input
+                id="fuelPrice"
+                inputMode="decimal"
+                value={value.fuelPricePerLiter}
+                onChange={(e) => onChange({ ...value, fuelPricePerLiter: e.target.value })}
+                placeholder={t.pricing.fuelPricePlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+              />
+            </div>
+            <div className="grid flex-1 gap-2">
+              <Label htmlFor="consumption" className="text-zinc-300">
+                {t.pricing.consumption}
+              </Label>
+              <Input
+                id="consumption"
+                inputMode="decimal"
+                value={value.litersPer100Km}
+                onChange={(e) => onChange({ ...value, litersPer100Km: e.target.value })}
+                placeholder={t.pricing.consumptionPlaceholder}
+                className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+            <span>
+              {derived !== null ? t.pricing.derived(formatCurrency(derived)) : t.pricing.enterBoth}
+            </span>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="shrink-0 bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+              onClick={onImport}
+              disabled={disabled}
+              title={t.pricing.importTitle}
+            >
+              {t.pricing.import}
+            </Button>
+          </div>
+          {measured && (
+            <div className="flex items-center justify-between gap-2 text-xs text-zinc-400">
+              <span>
+                {t.pricing.measured(measured.litersPer100Km, Math.round(measured.liters), Math.round(measured.km))}
+              </span>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="shrink-0 bg-zinc-800 text-zinc-100 border-0 hover:bg-zinc-700"
+                onClick={() => onChange({ ...value, litersPer100Km: String(measured.litersPer100Km) })}
+              >
+                {t.pricing.use}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
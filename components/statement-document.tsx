@@ -0,0 +1,174 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import type { Driver, Vehicle } from "@/lib/database"
+import { driverName, roundKm } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import type { Dictionary } from "@/lib/i18n"
+import type { DriverStatement, StatementPayment } from "@/lib/statement"
+import { vehicleName } from "@/lib/vehicles"
+
+type StatementDocumentProps = {
+  statement: DriverStatement
+  monthLabel: string
+  drivers: Driver[]
+  vehicles: Vehicle[]
+}
+
+// Statements print one per page, on white regardless of the app's dark theme
+const PAGE_CLASS =
+  "rounded-lg bg-white p-6 text-sm text-zinc-900 shadow " +
+  "print:break-after-page print:rounded-none print:p-0 print:shadow-none"
+
+function day(timestamp: number, tag: string): string {
+  return new Date(timestamp).toLocaleDateString(tag)
+}
+
+function paymentText(t: Dictionary, p: StatementPayment): string {
+  return p.kind === "fuel"
+    ? t.statement.fuel(p.liters, p.station)
+    : t.statement.charging(p.kWh, t.charge.locations[p.location])
+}
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={strong ? "flex justify-between font-semibold" : "flex justify-between"}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  )
+}
+
+// One driver's statement for the month, with a signature line
+export function StatementDocument({ statement, monthLabel, drivers, vehicles }: StatementDocumentProps) {
+  const { t, tag } = useI18n()
+  const name = driverName(drivers, statement.driver)
+
+  return (
+    <section className={PAGE_CLASS}>
+      <header className="flex items-start justify-between border-b border-zinc-300 pb-3">
+        <div>
+          <h1 className="text-lg font-semibold">{t.statement.documentTitle}</h1>
+          <div className="text-zinc-600">{`${name} • ${monthLabel}`}</div>
+        </div>
+        <div className="text-end text-xs text-zinc-500">
+          <div>{t.appName}</div>
+          <div>{t.statement.issued(day(Date.now(), tag))}</div>
+        </div>
+      </header>
+
+      <h2 className="mt-4 font-semibold">{t.statement.kmDriven}</h2>
+      {statement.lines.length === 0 ? (
+        <div className="text-zinc-500">{t.statement.noKm}</div>
+      ) : (
+        <table className="mt-1 w-full border-collapse">
+          <thead>
+            <tr className="border-b border-zinc-300 text-start text-xs text-zinc-500">
+              <th className="py-1 font-medium">{t.statement.columns.date}</th>
+              <th className="py-1 font-medium">{t.statement.columns.vehicle}</th>
+              <th className="py-1 text-end font-medium">{t.statement.columns.reading}</th>
+              <th className="py-1 text-end font-medium">{t.statement.columns.km}</th>
+              <th className="py-1 text-end font-medium">{t.statement.columns.pricePerKm}</th>
+              <th className="py-1 text-end font-medium">{t.statement.columns.amount}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.lines.map((l) => (
+              <tr key={`${l.vehicleId}-${l.timestamp}`} className="border-b border-zinc-100">
+                <td className="py-1">{day(l.timestamp, tag)}</td>
+                <td className="py-1">
+                  {l.shared
+                    ? t.statement.shared(vehicleName(vehicles, l.vehicleId))
+                    : vehicleName(vehicles, l.vehicleId)}
+                </td>
+                <td className="py-1 text-end">{l.reading ?? "-"}</td>
+                <td className="py-1 text-end">{roundKm(l.km)}</td>
+                <td className="py-1 text-end">{formatCurrency(l.pricePerKm)}</td>
+                <td className="py-1 text-end">{formatCurrency(l.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h2 className="mt-4 font-semibold">{t.statement.paidHeading}</h2>
+      {statement.payments.length === 0 ? (
+        <div className="text-zinc-500">{t.statement.nonePaid}</div>
+      ) : (
+        <div className="mt-1 grid gap-1">
+          {statement.payments.map((p) => (
+            <Row
+              key={`${p.vehicleId}-${p.timestamp}`}
+              label={`${day(p.timestamp, tag)} • ${vehicleName(vehicles, p.vehicleId)} • ${paymentText(t, p)}`}
+              value={formatCurrency(p.amount)}
+            />
+          ))}
+        </div>
+      )}
+
+      {statement.settlements.length > 0 && (
+        <>
+          <h2 className="mt-4 font-semibold">{t.statement.settledHeading}</h2>
+          <div className="mt-1 grid gap-1">
+            {statement.settlements.map((s) => (
+              <Row
+                key={`${s.vehicleId}-${s.timestamp}`}
+                label={`${day(s.timestamp, tag)} • ${vehicleName(vehicles, s.vehicleId)} • ${roundKm(s.km)} ${t.km}`}
+                value={formatCurrency(s.share)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="mt-4 grid gap-1 border-t border-zinc-300 pt-3">
+        <Row label={t.statement.totalKm} value={`${statement.totalKm} ${t.km}`} />
+        <Row label={t.statement.kmCost} value={formatCurrency(statement.kmCost)} />
+        <Row label={t.statement.paid} value={formatCurrency(statement.paid)} />
+        <Row
+          label={statement.owed >= 0 ? t.statement.owed : t.statement.refund}
+          value={formatCurrency(Math.abs(statement.owed))}
+          strong
+        />
+      </div>
+
+      <div className="mt-12 grid grid-cols-2 gap-8 text-xs text-zinc-500">
+        <div className="border-t border-zinc-400 pt-1">{t.statement.signature(name)}</div>
+        <div className="border-t border-zinc-400 pt-1">{t.statement.date}</div>
+      </div>
+    </section>
+  )
+}
+
+// Every driver's totals for the month side by side
+export function StatementSummary({ statements, drivers }: { statements: DriverStatement[]; drivers: Driver[] }) {
+  const { t } = useI18n()
+
+  return (
+    <section className={PAGE_CLASS}>
+      <h1 className="text-lg font-semibold">{t.statement.summary}</h1>
+      <table className="mt-2 w-full border-collapse">
+        <thead>
+          <tr className="border-b border-zinc-300 text-start text-xs text-zinc-500">
+            <th className="py-1 font-medium">{t.statement.summaryColumns.driver}</th>
+            <th className="py-1 text-end font-medium">{t.statement.summaryColumns.km}</th>
+            <th className="py-1 text-end font-medium">{t.statement.summaryColumns.kmCost}</th>
+            <th className="py-1 text-end font-medium">{t.statement.summaryColumns.paid}</th>
+            <th className="py-1 text-end font-medium">{t.statement.summaryColumns.owed}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {statements.map((s) => (
+            <tr key={s.driver} className="border-b border-zinc-100">
+              <td className="py-1">{driverName(drivers, s.driver)}</td>
+              <td className="py-1 text-end">{s.totalKm}</td>
+              <td className="py-1 text-end">{formatCurrency(s.kmCost)}</td>
+              <td className="py-1 text-end">{formatCurrency(s.paid)}</td>
+              <td className="py-1 text-end font-medium">{formatCurrency(s.owed)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import type { Driver, DriverId } from "@/lib/database"
+import { driverName } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import { dirOf } from "@/lib/i18n"
+import type { CycleStats, PeriodKm } from "@/lib/stats"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+
+// One color per driver, in the order drivers were added
+const DRIVER_COLORS = ["#a855f7", "#22d3ee", "#f59e0b", "#34d399", "#f472b6", "#60a5fa"]
+
+const AXIS_PROPS = { stroke: "#71717a", fontSize: 12, tickLine: false, axisLine: false }
+
+const TOOLTIP_PROPS = {
+  contentStyle: { background: "#18181b", border: "1px solid #27272a", borderRadius: 8 },
+  labelStyle: { color: "#e4e4e7" },
+  cursor: { fill: "#27272a" },
+}
+
+function colorOf(drivers: Driver[], id: DriverId): string {
+  const index = drivers.findIndex((d) => d.id === id)
+  return DRIVER_COLORS[(index === -1 ? drivers.length : index) % DRIVER_COLORS.length]
+}
+
+// Drivers that show up in the data, in the order they were added
+function driversIn(drivers: Driver[], records: Record<DriverId, number>[]): DriverId[] {
+  const ids = new Set(records.flatMap((r) => Object.keys(r)))
+  const known = drivers.map((d) => d.id).filter((id) => ids.has(id))
+  return [...known, ...[...ids].filter((id) => !known.includes(id))]
+}
+
+function shortDate(timestamp: number, tag: string): string {
+  return new Date(timestamp).toLocaleDateString(tag, { day: "numeric", month: "short" })
+}
+
+// Time runs right to left in Hebrew, with the values axis on the right
+function useAxes() {
+  const { locale, tag, t } = useI18n()
+  const rtl = dirOf(locale) === "rtl"
+  return {
+    tag,
+    t,
+    x: { ...AXIS_PROPS, reversed: rtl },
+    y: { ...AXIS_PROPS, orientation: rtl ? ("right" as const) : ("left" as const) },
+  }
+}
+
+function Empty() {
+  const { t } = useI18n()
+  return <div className="flex h-48 items-center justify-center text-sm text-zinc-500">{t.stats.empty}</div>
+}
+
+export function KmChart({ periods, drivers }: { periods: PeriodKm[]; drivers: Driver[] }) {
+  const { tag, t, x, y } = useAxes()
+  if (periods.length === 0) return <Empty />
+  const ids = driversIn(drivers, periods.map((p) => p.kmBy))
+  const data = periods.map((p) => ({ period: p.period, ...p.kmBy }))
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} stroke="#27272a" />
+        <XAxis dataKey="period" {...x} tickFormatter={(p: string) => shortDate(Date.parse(`${p}T00:00`), tag)} />
+        <YAxis {...y} width={40} />
+        <Tooltip {...TOOLTIP_PROPS} formatter={(km: number) => `${km} ${t.km}`} />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        {ids.map((id) => (
+          <Bar key={id} dataKey={id} name={driverName(drivers, id)} stackId="km" fill={colorOf(drivers, id)} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+export function CycleCostChart({ cycles }: { cycles: CycleStats[] }) {
+  const { tag, t, x, y } = useAxes()
+  if (cycles.length === 0) return <Empty />
+  const data = cycles.map((c) => ({ date: shortDate(c.timestamp, tag), cost: c.cost }))
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} stroke="#27272a" />
+        <XAxis dataKey="date" {...x} />
+        <YAxis {...y} width={48} />
+        <Tooltip {...TOOLTIP_PROPS} formatter={(cost: number) => formatCurrency(cost)} />
+        <Bar dataKey="cost" name={t.stats.cycleCost} fill={DRIVER_COLORS[0]} radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+export function ShareChart({ cycles, drivers }: { cycles: CycleStats[]; drivers: Driver[] }) {
+  const { tag, x, y } = useAxes()
+  if (cycles.length === 0) return <Empty />
+  const ids = driversIn(drivers, cycles.map((c) => c.shareBy))
+  const data = cycles.map((c) => ({ date: shortDate(c.timestamp, tag), ...c.shareBy }))
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <AreaChart data={data}>
+        <CartesianGrid vertical={false} stroke="#27272a" />
+        <XAxis dataKey="date" {...x} />
+        <YAxis {...y} width={40} domain={[0, 100]} tickFormatter={(p: number) => `${p}%`} />
+        <Tooltip {...TOOLTIP_PROPS} formatter={(percent: number) => `${percent}%`} />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        {ids.map((id) => (
+          <Area
+            key={id}
+            type="monotone"
+            dataKey={id}
+            name={driverName(drivers, id)}
+            stackId="share"
+            stroke={colorOf(drivers, id)}
+            fill={colorOf(drivers, id)}
+            fillOpacity={0.4}
+          />
+        ))}
+      </AreaChart>
+    </ResponsiveContainer>
+  )
+}
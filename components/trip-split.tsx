@@ -0,0 +1,43 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Driver, DriverId } from "@/lib/database"
+
+type TripSplitProps = {
+  drivers: Driver[]
+  split: Record<DriverId, string>
+  onChange: (split: Record<DriverId, string>) => void
+  disabled: boolean
+}
+
+// Percent of a shared trip per active driver; leave 0 for anyone who wasn't along
+export function TripSplit({ drivers, split, onChange, disabled }: TripSplitProps) {
+  const total = Object.values(split).reduce((sum, percent) => sum + (Number(percent) || 0), 0)
+
+  return (
+    <div className="grid gap-2">
+      {drivers
+        .filter((d) => d.active)
+        .map((d) => (
+          <div key={d.id} className="flex items-center gap-2">
+            <Label htmlFor={`split-${d.id}`} className="flex-1 text-sm text-zinc-300">
+              {d.name}
+            </Label>
+            <Input
+              id={`split-${d.id}`}
+              inputMode="decimal"
+              value={split[d.id] ?? ""}
+              onChange={(e) => onChange({ ...split, [d.id]: e.target.value })}
+              className="w-20 bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+              disabled={disabled}
+            />
+            <span className="text-xs text-zinc-500">%</span>
+          </div>
+        ))}
+      {Math.abs(total - 100) >= 0.01 && (
+        <div className="text-xs text-purple-300">{`Split adds up to ${Math.round(total * 100) / 100}%, not 100%.`}</div>
+      )}
+    </div>
+  )
+}
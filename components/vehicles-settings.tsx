@@ -0,0 +1,104 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { EnergyType, Vehicle, VehicleId } from "@/lib/database"
+import { cn } from "@/lib/utils"
+import { useEffect, useState } from "react"
+
+type VehiclesSettingsProps = {
+  vehicles: Vehicle[]
+  currentVehicleId: VehicleId
+  disabled: boolean
+  onRename: (name: string) => Promise<void>
+  onSetEnergy: (energy: EnergyType) => Promise<boolean>
+  onAdd: (name: string) => Promise<boolean>
+}
+
+const ENERGY_TYPES: EnergyType[] = ["fuel", "electric", "plugInHybrid"]
+
+// Price and starting mileage above apply to the current vehicle only
+export function VehiclesSettings({
+  vehicles,
+  currentVehicleId,
+  disabled,
+  onRename,
+  onSetEnergy,
+  onAdd,
+}: VehiclesSettingsProps) {
+  const { t } = useI18n()
+  const current = vehicles.find((v) => v.id === currentVehicleId)
+  const [name, setName] = useState(current?.name ?? "")
+  const [newName, setNewName] = useState("")
+
+  useEffect(() => {
+    setName(current?.name ?? "")
+  }, [current?.name])
+
+  async function add() {
+    if (await onAdd(newName)) {
+      setNewName("")
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label className="text-zinc-300">{t.vehicles.title}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          disabled={disabled}
+        />
+        <Button
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+          onClick={() => onRename(name)}
+          disabled={disabled || !name.trim() || name.trim() === current?.name}
+        >
+          {t.vehicles.rename}
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {ENERGY_TYPES.map((energy) => (
+          <Button
+            key={energy}
+            size="sm"
+            variant="secondary"
+            onClick={() => onSetEnergy(energy)}
+            disabled={disabled || energy === current?.energy}
+            className={cn(
+              "border-0",
+              energy === current?.energy
+                ? "bg-purple-600 text-white disabled:opacity-100"
+                : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+            )}
+          >
+            {t.vehicles.energy[energy]}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t.vehicles.addPlaceholder}
+          className="bg-zinc-800 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          disabled={disabled}
+        />
+        <Button
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-500 text-white border-0"
+          onClick={add}
+          disabled={disabled || !newName.trim()}
+        >
+          {t.vehicles.add}
+        </Button>
+      </div>
+      <div className="text-xs text-zinc-500">{t.vehicles.hint}</div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { cookies, headers } from "next/headers"
+import { getDriver, type DriverId, type GroupId } from "@/lib/database"
+import { UserError } from "@/lib/errors"
+import { LOCALE_COOKIE, type Locale } from "@/lib/i18n"
+import { SESSION_COOKIE, SESSION_MAX_AGE, signSession, verifySession } from "@/lib/session"
+
+export async function getSessionUser(): Promise<DriverId | null> {
+  const cookieStore = await cookies()
+  return await verifySession(cookieStore.get(SESSION_COOKIE)?.value)
+}
+
+// As reported by the proxy in front of the app, e.g. Vercel, which sets x-forwarded-for itself
+export async function clientAddress(): Promise<string> {
+  const headerStore = await headers()
+  return headerStore.get("x-forwarded-for")?.split(",")[0].trim() || headerStore.get("x-real-ip") || "unknown"
+}
+
+export type Session = {
+  user: DriverId
+  groupId: GroupId
+}
+
+// The group always comes from the driver row, never from the client.
+// Also rejects drivers that were deactivated after signing in.
+export async function requireSession(): Promise<Session> {
+  const user = await getSessionUser()
+  const driver = user ? await getDriver(user) : null
+  if (!driver || !driver.active) {
+    throw new UserError("notSignedIn")
+  }
+  return { user: driver.id, groupId: driver.groupId }
+}
+
+export async function startSession(user: DriverId): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, await signSession(user), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  })
+}
+
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete(SESSION_COOKIE)
+}
+
+// Not a secret: the root layout reads it to render lang and dir, and it outlives the session
+export async function rememberLocale(locale: Locale): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.set(LOCALE_COOKIE, locale, {
+    sameSite: "lax",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+  })
+}
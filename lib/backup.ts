@@ -0,0 +1,135 @@
+import {
+  addHistoryEntry,
+  addObligation,
+  clearGroupData,
+  deactivateDriversExcept,
+  getDrivers,
+  getEntries,
+  getLedger,
+  getMessageSettings,
+  getVehicles,
+  getVehicleStates,
+  restoreDriver,
+  restoreVehicle,
+  setMessageSettings,
+  withTransaction,
+  type DriverId,
+  type GroupId,
+} from "@/lib/database"
+import { isErrorKey, UserError } from "@/lib/errors"
+import { backupHeaderSchema, backupSchema, type Backup } from "@/lib/schemas"
+
+// Bump when the backup layout changes; older apps refuse backups they can't read
+export const BACKUP_VERSION = 4
+
+// Oldest version still restored; version 3 only lacks the details of undone and deleted entries
+const OLDEST_RESTORABLE_VERSION = 3
+
+export async function createBackup(groupId: GroupId): Promise<Backup> {
+  const [drivers, vehicles, states, entries, obligations, messageSettings] = await Promise.all([
+    getDrivers(groupId),
+    getVehicles(groupId),
+    getVehicleStates(groupId),
+    getEntries(groupId, {}),
+    getLedger(groupId),
+    getMessageSettings(groupId),
+  ])
+  return {
+    format: "fuel-split-backup",
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    groupId,
+    drivers: drivers.map(({ id, name, active }) => ({ id, name, active })),
+    vehicles: vehicles.map(({ id, name, energy }) => ({ id, name, energy })),
+    states,
+    entries,
+    obligations,
+    messageSettings,
+  }
+}
+
+// Checks the format version first, then every row, then that the rows refer to each other.
+// Problems are thrown as UserErrors so the restore page can word them in the user's language.
+export function parseBackup(input: unknown, groupId: GroupId, user: DriverId): Backup {
+  const header = backupHeaderSchema.safeParse(input)
+  if (!header.success) {
+    const message = header.error.issues[0]?.message ?? ""
+    throw new UserError(isErrorKey(message) ? message : "notABackup")
+  }
+  const { version } = header.data
+  if (version < OLDEST_RESTORABLE_VERSION || version > BACKUP_VERSION) {
+    console.error(`Backup is version ${version}; this app restores ${OLDEST_RESTORABLE_VERSION}-${BACKUP_VERSION}`)
+    throw new UserError("backupVersion")
+  }
+
+  const result = backupSchema.safeParse(input)
+  if (!result.success) {
+    console.error("Invalid backup row:", result.error.issues[0])
+    throw new UserError("backupInvalid")
+  }
+  const backup = result.data
+
+  if (backup.groupId !== groupId) {
+    throw new UserError("backupOtherGroup")
+  }
+  if (!backup.drivers.some((d) => d.id === user && d.active)) {
+    throw new UserError("backupLocksYouOut")
+  }
+  const vehicleIds = new Set(backup.vehicles.map((v) => v.id))
+  const driverIds = new Set(backup.drivers.map((d) => d.id))
+  if (vehicleIds.size === 0) {
+    throw new UserError("backupNoVehicles")
+  }
+  if (
+    vehicleIds.size !== backup.vehicles.length ||
+    backup.states.length !== vehicleIds.size ||
+    backup.states.some((s) => !vehicleIds.has(s.vehicleId)) ||
+    new Set(backup.states.map((s) => s.vehicleId)).size !== vehicleIds.size
+  ) {
+    throw new UserError("backupStates")
+  }
+  if (
+    backup.entries.some((e) => !vehicleIds.has(e.vehicleId)) ||
+    backup.obligations.some((o) => !vehicleIds.has(o.vehicleId))
+  ) {
+    throw new UserError("backupUnknownVehicle")
+  }
+  if (backup.obligations.some((o) => !driverIds.has(o.from) || !driverIds.has(o.to))) {
+    throw new UserError("backupUnknownDriver")
+  }
+  return backup
+}
+
+// Replaces the group's vehicles, state, entries, ledger and message settings with the backup in one transaction.
+// State versions move past the current ones so that pages opened before the restore can't write over it.
+export async function restoreBackup(backup: Backup, groupId: GroupId): Promise<void> {
+  await withTransaction(async (db) => {
+    const current = await getVehicleStates(groupId, db)
+    const newestVersion = current.reduce((newest, s) => Math.max(newest, s.version), 0)
+
+    await clearGroupData(groupId, db)
+    for (const driver of backup.drivers) {
+      await restoreDriver({ ...driver, groupId }, db)
+    }
+    await deactivateDriversExcept(
+      groupId,
+      backup.drivers.map((d) => d.id),
+      db,
+    )
+    for (const vehicle of backup.vehicles) {
+      const state = backup.states.find((s) => s.vehicleId === vehicle.id)!
+      await restoreVehicle(
+        { ...vehicle, groupId },
+        { ...state, version: Math.max(state.version, newestVersion) + 1 },
+        db,
+      )
+    }
+    for (const { vehicleId, ...entry } of backup.entries) {
+      await addHistoryEntry(entry, { groupId, vehicleId }, db)
+    }
+    for (const obligation of backup.obligations) {
+      await addObligation(obligation, groupId, db)
+    }
+    await setMessageSettings(groupId, backup.messageSettings, db)
+  })
+}
@@ -1,83 +1,330 @@
-import { neon } from "@neondatabase/serverless"
+import { neon, neonConfig, Pool, type PoolClient } from "@neondatabase/serverless"
+import ws from "ws"
+import { StaleStateError } from "@/lib/errors"
+import type { Locale } from "@/lib/i18n"
+import type { MessageSettings } from "@/lib/messages"
+import { measuredConsumption } from "@/lib/pricing"
+
+// Transactions go through the Pool over WebSockets, and Node before 22 has no global WebSocket
+neonConfig.webSocketConstructor = ws
 
 const sql = neon(process.env.DATABASE_URL!)
+const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+// Tagged-template query function, implemented by both `sql` and a transaction client
+export type Sql = (strings: TemplateStringsArray, ...values: any[]) => Promise<Record<string, any>[]>
+
+function bindClient(client: PoolClient): Sql {
+  return async (strings, ...values) => {
+    const text = strings.reduce((query, part, i) => `${query}$${i}${part}`)
+    const result = await client.query(text, values)
+    return result.rows
+  }
+}
+
+export async function withTransaction<T>(fn: (db: Sql) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+    const result = await fn(bindClient(client))
+    await client.query("COMMIT")
+    return result
+  } catch (error) {
+    await client.query("ROLLBACK")
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// A household sharing one or more cars; nothing is visible across groups
+export type GroupId = string
+
+// Driver ids are stable; names can be changed from settings
+export type DriverId = string
+
+export type Driver = {
+  id: DriverId
+  groupId: GroupId
+  name: string
+  active: boolean
+}
+
+// Where a driver wants reset summaries delivered; kept out of Driver so other drivers don't see it
+export type NotifyChannel = "whatsapp" | "telegram" | "email" | "webhook"
+
+export type NotifyDestination = {
+  channel: NotifyChannel
+  // A phone number, Telegram chat id, email address or https URL, depending on the channel
+  to: string
+}
+
+export type VehicleId = string
+
+export type EnergyType = "fuel" | "electric" | "plugInHybrid"
+
+export type Vehicle = {
+  id: VehicleId
+  groupId: GroupId
+  name: string
+  energy: EnergyType
+}
+
+// Identifies one vehicle's state row and entries within a group
+export type StateScope = {
+  groupId: GroupId
+  vehicleId: VehicleId
+}
+
+export type Invite = {
+  code: string
+  groupId: GroupId
+  expiresAt: number
+}
+
+// What was actually bought at the pump when the cycle was reset
+export type FillUp = {
+  liters: number
+  amountPaid: number
+  paidBy: DriverId
+  station?: string
+}
+
+// A charging session, logged during the cycle and settled at the next reset
+export type Charge = {
+  kWh: number
+  pricePerKwh: number
+  location: "home" | "public"
+  paidBy: DriverId
+}
+
+export type Transfer = {
+  from: DriverId
+  to: DriverId
+  amount: number
+}
+
+// Created for each transfer at reset; settled once payments add up to the amount
+export type Obligation = {
+  id: string
+  vehicleId: VehicleId
+  resetEntryId: string
+  from: DriverId
+  to: DriverId
+  amount: number
+  paid: number
+  createdAt: number
+}
+
+export type Payment = {
+  obligationId: string
+  from: DriverId
+  to: DriverId
+  amount: number
+}
+
+// How pricePerKm is set: typed in directly, or derived from the pump price and the car's consumption
+export type Pricing =
+  | { mode: "perKm" }
+  | { mode: "consumption"; fuelPricePerLiter: number; litersPer100Km: number }
+
+// Km of one cycle driven while a given price per km was in effect
+export type PriceSegment = {
+  pricePerKm: number
+  kmBy: Record<DriverId, number>
+}
+
+// Real consumption measured from the fill-ups that closed past cycles
+export type MeasuredConsumption = {
+  litersPer100Km: number
+  liters: number
+  km: number
+}
+
+export type PriceChange = {
+  pricePerKm: number
+  previous: number
+}
 
-export type User = "Amit" | "John"
+// What an entry looked like before an edit
+export type EntryEdit = {
+  editedAt: number
+  editedBy: DriverId
+  reading?: number
+  attributedTo?: DriverId
+}
+
+// What a "revert" or "removal" entry took out
+export type RemovedEntry = {
+  timestamp: number
+  // For a deleted mileage entry: its reading and who its km were credited to
+  reading?: number
+  creditedTo?: DriverId[]
+}
 
 export type Entry = {
   id: string
-  type: "init" | "entry" | "reset"
+  // "revert" and "removal" record a reset that was undone or an entry that was deleted;
+  // the original entry itself is removed
+  type: "init" | "entry" | "shared" | "reset" | "payment" | "revert" | "removal" | "price" | "charge"
   timestamp: number
   reading?: number
   deltaKm?: number
-  attributedTo?: User
-  enteredBy?: User
+  attributedTo?: DriverId
+  enteredBy?: DriverId
   note?: string
+  fillUp?: FillUp
+  charge?: Charge
+  payment?: Payment
+  // For "price" entries; the timestamp is when the new price took effect
+  price?: PriceChange
+  // Percent of a shared trip's km per driver, adding up to 100
+  split?: Record<DriverId, number>
+  // Oldest first
+  edits?: EntryEdit[]
+  // For "revert" and "removal" entries; older ones describe it in an English note instead
+  removed?: RemovedEntry
   snapshot?: {
-    kmBy: Record<User, number>
+    kmBy: Record<DriverId, number>
     pricePerKm: number
     totalKm: number
     totalAmount: number
+    // Charging sessions settled by this reset
+    charged?: number
+    // Each driver's part of what was paid for fuel and charging, and who pays it to whom
+    shares?: Record<DriverId, number>
+    transfers?: Transfer[]
+    // The cycle's km itemized by the price in effect when they were driven
+    segments?: PriceSegment[]
   }
 }
 
+// An entry together with the vehicle it was logged on, for listings across vehicles
+export type VehicleEntry = Entry & { vehicleId: VehicleId }
+
+// Bounds are inclusive timestamps; a missing field doesn't filter
+export type EntryFilter = {
+  vehicleId?: VehicleId
+  types?: Entry["type"][]
+  from?: number
+  to?: number
+}
+
+// One vehicle's state row as stored
+export type VehicleState = {
+  vehicleId: VehicleId
+  version: number
+  pricePerKm: number
+  pricing: Pricing
+  startingOdometer: number
+  lastOdometer: number | null
+  kmBy: Record<DriverId, number>
+  lastEnteredBy: DriverId | null
+}
+
+// State of one vehicle: each car has its own odometer, price and reset cycle
 export type AppState = {
+  groupId: GroupId
+  vehicleId: VehicleId
+  vehicles: Vehicle[]
   version: number
   pricePerKm: number
+  pricing: Pricing
   startingOdometer: number
   lastOdometer: number | null
-  kmBy: Record<User, number>
+  // Drivers without km in the current cycle may be missing
+  kmBy: Record<DriverId, number>
+  drivers: Driver[]
+  // Obligations of the whole group, across all vehicles and cycles
+  ledger: Obligation[]
+  // Over all of the vehicle's fill-ups, not just the loaded history
+  consumption: MeasuredConsumption | null
+  // Only the current cycle, starting with the reset that opened it; older entries are paged in
+  // with getEntries
   history: Entry[]
-  lastEnteredBy: User | null
+  lastEnteredBy: DriverId | null
 }
 
-export async function getAppState(): Promise<AppState> {
+function toEntry(row: any): Entry {
+  return {
+    id: row.id,
+    type: row.type,
+    timestamp: Number(row.timestamp),
+    reading: row.reading,
+    deltaKm: row.delta_km,
+    attributedTo: row.attributed_to,
+    enteredBy: row.entered_by,
+    note: row.note,
+    snapshot: row.snapshot_data,
+    fillUp: row.fill_up_data ?? undefined,
+    payment: row.payment_data ?? undefined,
+    edits: row.edits_data ?? undefined,
+    split: row.split_data ?? undefined,
+    price: row.price_data ?? undefined,
+    charge: row.charge_data ?? undefined,
+    removed: row.removed_data ?? undefined,
+  }
+}
+
+// Falls back to the group's first vehicle when vehicleId is null or not in the group
+export async function getAppState(groupId: GroupId, vehicleId: VehicleId | null, db: Sql = sql): Promise<AppState> {
   try {
+    const vehicles = await getVehicles(groupId, db)
+    const vehicle = vehicles.find((v) => v.id === vehicleId) ?? vehicles[0]
+    if (!vehicle) {
+      throw new Error("No vehicle found in database")
+    }
+
     // Get current state
-    const stateResult = await sql`
+    const stateResult = await db`
       SELECT version, price_per_km, starting_odometer, last_odometer, 
-             amit_km, john_km, last_entered_by
+             km_by, last_entered_by, pricing_data
       FROM fuel_split_state 
+      WHERE group_id = ${groupId} AND vehicle_id = ${vehicle.id}
       ORDER BY updated_at DESC 
       LIMIT 1
     `
 
-    // Get history entries
-    const historyResult = await sql`
+    // Get the current cycle's entries
+    const historyResult = await db`
       SELECT id, type, timestamp, reading, delta_km, attributed_to, 
-             entered_by, note, snapshot_data
+             entered_by, note, snapshot_data, fill_up_data, payment_data, edits_data,
+             split_data, price_data, charge_data, removed_data
       FROM fuel_split_entries 
+      WHERE group_id = ${groupId} AND vehicle_id = ${vehicle.id}
+        AND timestamp >= (
+          SELECT COALESCE(MAX(timestamp), 0) FROM fuel_split_entries 
+          WHERE group_id = ${groupId} AND vehicle_id = ${vehicle.id} AND type = 'reset'
+        )
       ORDER BY timestamp ASC
     `
+    const fillUps = await getFillUpTotals(groupId, vehicle.id, db)
+
+    const drivers = await getDrivers(groupId, db)
+    const ledger = await getLedger(groupId, db)
 
     const state = stateResult[0]
     if (!state) {
       throw new Error("No state found in database")
     }
 
-    const history: Entry[] = historyResult.map((row: any) => ({
-      id: row.id,
-      type: row.type,
-      timestamp: Number(row.timestamp),
-      reading: row.reading,
-      deltaKm: row.delta_km,
-      attributedTo: row.attributed_to,
-      enteredBy: row.entered_by,
-      note: row.note,
-      snapshot: row.snapshot_data,
-    }))
+    const history = historyResult.map(toEntry)
 
     return {
+      groupId,
+      vehicleId: vehicle.id,
+      vehicles,
       version: state.version,
       pricePerKm: Number(state.price_per_km),
+      pricing: state.pricing_data ?? { mode: "perKm" },
       startingOdometer: state.starting_odometer,
       lastOdometer: state.last_odometer,
-      kmBy: {
-        Amit: state.amit_km,
-        John: state.john_km,
-      },
+      kmBy: state.km_by ?? {},
+      drivers,
+      ledger,
+      consumption: measuredConsumption(fillUps.liters, fillUps.km),
       history,
-      lastEnteredBy: state.last_entered_by as User | null,
+      lastEnteredBy: state.last_entered_by,
     }
   } catch (error) {
     console.error("Error getting app state:", error)
@@ -85,34 +332,681 @@ export async function getAppState(): Promise<AppState> {
   }
 }
 
-export async function updateAppState(newState: AppState): Promise<void> {
+// Liters of all of the vehicle's fill-ups and the km of the cycles they closed, summed in the
+// database so the reset snapshots don't have to be loaded
+async function getFillUpTotals(
+  groupId: GroupId,
+  vehicleId: VehicleId,
+  db: Sql,
+): Promise<{ liters: number; km: number }> {
+  const result = await db`
+    SELECT COALESCE(SUM((fill_up_data->>'liters')::numeric), 0) AS liters,
+           COALESCE(SUM((snapshot_data->>'totalKm')::numeric), 0) AS km
+    FROM fuel_split_entries
+    WHERE group_id = ${groupId} AND vehicle_id = ${vehicleId} AND type = 'reset'
+      AND fill_up_data IS NOT NULL AND (snapshot_data->>'totalKm')::numeric > 0
+  `
+  return { liters: Number(result[0].liters), km: Number(result[0].km) }
+}
+
+// Saves newState if the stored version still equals newState.version and returns the bumped version
+export async function updateAppState(newState: AppState, db: Sql = sql): Promise<number> {
+  let updated: Record<string, any>[]
   try {
     // Update main state
-    await sql`
+    updated = await db`
       UPDATE fuel_split_state 
-      SET version = ${newState.version},
+      SET version = version + 1,
           price_per_km = ${newState.pricePerKm},
+          pricing_data = ${newState.pricing.mode === "perKm" ? null : JSON.stringify(newState.pricing)},
           starting_odometer = ${newState.startingOdometer},
           last_odometer = ${newState.lastOdometer},
-          amit_km = ${newState.kmBy.Amit},
-          john_km = ${newState.kmBy.John},
+          km_by = ${JSON.stringify(newState.kmBy)},
           last_entered_by = ${newState.lastEnteredBy},
           updated_at = NOW()
-      WHERE id = (SELECT id FROM fuel_split_state ORDER BY updated_at DESC LIMIT 1)
+      WHERE id = (
+          SELECT id FROM fuel_split_state 
+          WHERE group_id = ${newState.groupId} AND vehicle_id = ${newState.vehicleId} 
+          ORDER BY updated_at DESC 
+          LIMIT 1
+        )
+        AND version = ${newState.version}
+      RETURNING version
     `
   } catch (error) {
     console.error("Error updating app state:", error)
     throw error
   }
+
+  if (updated.length === 0) {
+    throw new StaleStateError()
+  }
+  return updated[0].version
+}
+
+function toDriver(row: any): Driver {
+  return { id: row.id, groupId: row.group_id, name: row.name, active: row.active }
+}
+
+export async function getDrivers(groupId: GroupId, db: Sql = sql): Promise<Driver[]> {
+  try {
+    const result = await db`
+      SELECT id, group_id, name, active
+      FROM fuel_split_drivers 
+      WHERE group_id = ${groupId}
+      ORDER BY created_at ASC
+    `
+    return result.map(toDriver)
+  } catch (error) {
+    console.error("Error getting drivers:", error)
+    throw error
+  }
+}
+
+export async function getDriver(driverId: DriverId, db: Sql = sql): Promise<Driver | null> {
+  try {
+    const result = await db`
+      SELECT id, group_id, name, active
+      FROM fuel_split_drivers 
+      WHERE id = ${driverId}
+    `
+    return result[0] ? toDriver(result[0]) : null
+  } catch (error) {
+    console.error("Error getting driver:", error)
+    throw error
+  }
+}
+
+// Codes are stored as pgcrypto crypt() hashes, see scripts/002-create-drivers.sql.
+// Codes are unique across all groups since they alone identify the driver at login.
+export async function findDriverByCode(code: string, db: Sql = sql): Promise<Driver | null> {
+  try {
+    const result = await db`
+      SELECT id, group_id, name, active FROM fuel_split_drivers 
+      WHERE code_hash = crypt(${code}, code_hash) 
+      LIMIT 1
+    `
+    return result[0] ? toDriver(result[0]) : null
+  } catch (error) {
+    console.error("Error verifying access code:", error)
+    throw error
+  }
+}
+
+// Failed logins from one address in a window that opened after `since`
+export async function getLoginFailures(address: string, since: number, db: Sql = sql): Promise<number> {
+  try {
+    const result = await db`
+      SELECT failures FROM fuel_split_login_attempts
+      WHERE address = ${address} AND window_start > ${new Date(since).toISOString()}
+    `
+    return result[0]?.failures ?? 0
+  } catch (error) {
+    console.error("Error getting login failures:", error)
+    throw error
+  }
+}
+
+// Counts a failed login, opening a new window when the last one opened before `since`
+export async function addLoginFailure(address: string, since: number, db: Sql = sql): Promise<void> {
+  const windowOpen = new Date(since).toISOString()
+  try {
+    await db`
+      INSERT INTO fuel_split_login_attempts (address, failures, window_start)
+      VALUES (${address}, 1, NOW())
+      ON CONFLICT (address) DO UPDATE SET
+        failures = CASE
+          WHEN fuel_split_login_attempts.window_start > ${windowOpen} THEN fuel_split_login_attempts.failures + 1
+          ELSE 1
+        END,
+        window_start = CASE
+          WHEN fuel_split_login_attempts.window_start > ${windowOpen} THEN fuel_split_login_attempts.window_start
+          ELSE NOW()
+        END
+    `
+  } catch (error) {
+    console.error("Error adding login failure:", error)
+    throw error
+  }
+}
+
+export async function clearLoginFailures(address: string, db: Sql = sql): Promise<void> {
+  try {
+    await db`DELETE FROM fuel_split_login_attempts WHERE address = ${address}`
+  } catch (error) {
+    console.error("Error clearing login failures:", error)
+    throw error
+  }
+}
+
+export async function addDriver(driver: Driver, code: string, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_drivers (id, group_id, name, active, code_hash)
+      VALUES (${driver.id}, ${driver.groupId}, ${driver.name}, ${driver.active}, crypt(${code}, gen_salt('bf')))
+    `
+  } catch (error) {
+    console.error("Error adding driver:", error)
+    throw error
+  }
+}
+
+export async function updateDriver(driver: Driver, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_drivers 
+      SET name = ${driver.name},
+          active = ${driver.active}
+      WHERE id = ${driver.id} AND group_id = ${driver.groupId}
+    `
+  } catch (error) {
+    console.error("Error updating driver:", error)
+    throw error
+  }
+}
+
+export async function getDriverLocale(driverId: DriverId, db: Sql = sql): Promise<Locale | null> {
+  try {
+    const result = await db`
+      SELECT locale FROM fuel_split_drivers WHERE id = ${driverId}
+    `
+    return result[0]?.locale ?? null
+  } catch (error) {
+    console.error("Error getting driver locale:", error)
+    throw error
+  }
+}
+
+export async function setDriverLocale(
+  driverId: DriverId,
+  groupId: GroupId,
+  locale: Locale,
+  db: Sql = sql,
+): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_drivers SET locale = ${locale} WHERE id = ${driverId} AND group_id = ${groupId}
+    `
+  } catch (error) {
+    console.error("Error setting driver locale:", error)
+    throw error
+  }
+}
+
+// Active drivers of the group who chose a destination
+export async function getNotifyDestinations(
+  groupId: GroupId,
+  db: Sql = sql,
+): Promise<Record<DriverId, NotifyDestination>> {
+  try {
+    const result = await db`
+      SELECT id, notify_destination
+      FROM fuel_split_drivers
+      WHERE group_id = ${groupId} AND active AND notify_destination IS NOT NULL
+    `
+    return Object.fromEntries(result.map((row) => [row.id, row.notify_destination]))
+  } catch (error) {
+    console.error("Error getting notify destinations:", error)
+    throw error
+  }
+}
+
+export async function getNotifyDestination(driverId: DriverId, db: Sql = sql): Promise<NotifyDestination | null> {
+  try {
+    const result = await db`
+      SELECT notify_destination FROM fuel_split_drivers WHERE id = ${driverId}
+    `
+    return result[0]?.notify_destination ?? null
+  } catch (error) {
+    console.error("Error getting notify destination:", error)
+    throw error
+  }
+}
+
+export async function setNotifyDestination(
+  driverId: DriverId,
+  groupId: GroupId,
+  destination: NotifyDestination | null,
+  db: Sql = sql,
+): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_drivers
+      SET notify_destination = ${destination === null ? null : JSON.stringify(destination)}
+      WHERE id = ${driverId} AND group_id = ${groupId}
+    `
+  } catch (error) {
+    console.error("Error setting notify destination:", error)
+    throw error
+  }
 }
 
-export async function addHistoryEntry(entry: Entry): Promise<void> {
+// Inserts or overwrites a driver of the group. Access codes aren't part of backups: existing
+// drivers keep theirs, and new ones get a random code nobody knows until one is set for them.
+// Fails when the id belongs to a driver of another group.
+export async function restoreDriver(driver: Driver, db: Sql = sql): Promise<void> {
+  let restored: Record<string, any>[]
   try {
-    await sql`
+    restored = await db`
+      INSERT INTO fuel_split_drivers (id, group_id, name, active, code_hash)
+      VALUES (
+        ${driver.id}, ${driver.groupId}, ${driver.name}, ${driver.active},
+        crypt(encode(gen_random_bytes(16), 'hex'), gen_salt('bf'))
+      )
+      ON CONFLICT (id) DO UPDATE
+      SET name = EXCLUDED.name, active = EXCLUDED.active
+      WHERE fuel_split_drivers.group_id = EXCLUDED.group_id
+      RETURNING id
+    `
+  } catch (error) {
+    console.error("Error restoring driver:", error)
+    throw error
+  }
+
+  if (restored.length === 0) {
+    throw new Error(`Driver ${driver.id} belongs to another group.`)
+  }
+}
+
+// Drivers can't be deleted while invites refer to them, so the ones missing from a backup are deactivated
+export async function deactivateDriversExcept(groupId: GroupId, keep: DriverId[], db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_drivers 
+      SET active = FALSE
+      WHERE group_id = ${groupId} AND NOT (id = ANY(${keep}))
+    `
+  } catch (error) {
+    console.error("Error deactivating drivers:", error)
+    throw error
+  }
+}
+
+export async function getVehicles(groupId: GroupId, db: Sql = sql): Promise<Vehicle[]> {
+  try {
+    const result = await db`
+      SELECT id, group_id, name, energy_type
+      FROM fuel_split_vehicles 
+      WHERE group_id = ${groupId}
+      ORDER BY created_at ASC
+    `
+    return result.map((row: any) => ({
+      id: row.id,
+      groupId: row.group_id,
+      name: row.name,
+      energy: row.energy_type ?? "fuel",
+    }))
+  } catch (error) {
+    console.error("Error getting vehicles:", error)
+    throw error
+  }
+}
+
+// Creates the vehicle together with its own, empty state row
+export async function addVehicle(vehicle: Vehicle, pricePerKm: number, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_vehicles (id, group_id, name, energy_type)
+      VALUES (${vehicle.id}, ${vehicle.groupId}, ${vehicle.name}, ${vehicle.energy})
+    `
+    await db`
+      INSERT INTO fuel_split_state 
+      (group_id, vehicle_id, version, price_per_km, starting_odometer, last_odometer, km_by, last_entered_by, updated_at)
+      VALUES (${vehicle.groupId}, ${vehicle.id}, 0, ${pricePerKm}, 0, NULL, '{}'::jsonb, NULL, NOW())
+    `
+  } catch (error) {
+    console.error("Error adding vehicle:", error)
+    throw error
+  }
+}
+
+export async function updateVehicle(vehicle: Vehicle, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_vehicles 
+      SET name = ${vehicle.name}, energy_type = ${vehicle.energy}
+      WHERE id = ${vehicle.id} AND group_id = ${vehicle.groupId}
+    `
+  } catch (error) {
+    console.error("Error updating vehicle:", error)
+    throw error
+  }
+}
+
+export async function getVehicleStates(groupId: GroupId, db: Sql = sql): Promise<VehicleState[]> {
+  try {
+    const result = await db`
+      SELECT DISTINCT ON (vehicle_id) vehicle_id, version, price_per_km, starting_odometer,
+             last_odometer, km_by, last_entered_by, pricing_data
+      FROM fuel_split_state 
+      WHERE group_id = ${groupId}
+      ORDER BY vehicle_id, updated_at DESC
+    `
+    return result.map((row: any) => ({
+      vehicleId: row.vehicle_id,
+      version: row.version,
+      pricePerKm: Number(row.price_per_km),
+      pricing: row.pricing_data ?? { mode: "perKm" },
+      startingOdometer: row.starting_odometer,
+      lastOdometer: row.last_odometer,
+      kmBy: row.km_by ?? {},
+      lastEnteredBy: row.last_entered_by,
+    }))
+  } catch (error) {
+    console.error("Error getting vehicle states:", error)
+    throw error
+  }
+}
+
+// Inserts the vehicle together with a copy of its stored state row
+export async function restoreVehicle(vehicle: Vehicle, state: VehicleState, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_vehicles (id, group_id, name, energy_type)
+      VALUES (${vehicle.id}, ${vehicle.groupId}, ${vehicle.name}, ${vehicle.energy})
+    `
+    await db`
+      INSERT INTO fuel_split_state 
+      (group_id, vehicle_id, version, price_per_km, pricing_data, starting_odometer, last_odometer, km_by,
+       last_entered_by, updated_at)
+      VALUES (
+        ${vehicle.groupId},
+        ${vehicle.id},
+        ${state.version},
+        ${state.pricePerKm},
+        ${state.pricing.mode === "perKm" ? null : JSON.stringify(state.pricing)},
+        ${state.startingOdometer},
+        ${state.lastOdometer},
+        ${JSON.stringify(state.kmBy)},
+        ${state.lastEnteredBy},
+        NOW()
+      )
+    `
+  } catch (error) {
+    console.error("Error restoring vehicle:", error)
+    throw error
+  }
+}
+
+// Deletes the group's vehicles with their state, entries and obligations; drivers and invites stay
+export async function clearGroupData(groupId: GroupId, db: Sql = sql): Promise<void> {
+  try {
+    await db`DELETE FROM fuel_split_obligations WHERE group_id = ${groupId}`
+    await db`DELETE FROM fuel_split_entries WHERE group_id = ${groupId}`
+    await db`DELETE FROM fuel_split_state WHERE group_id = ${groupId}`
+    await db`DELETE FROM fuel_split_vehicles WHERE group_id = ${groupId}`
+  } catch (error) {
+    console.error("Error clearing group data:", error)
+    throw error
+  }
+}
+
+export async function addGroup(groupId: GroupId, name: string, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_groups (id, name)
+      VALUES (${groupId}, ${name})
+    `
+  } catch (error) {
+    console.error("Error adding group:", error)
+    throw error
+  }
+}
+
+// The group's reset message settings as saved; null until someone saves them
+export async function getMessageSettings(groupId: GroupId, db: Sql = sql): Promise<MessageSettings | null> {
+  try {
+    const result = await db`
+      SELECT message_settings FROM fuel_split_groups WHERE id = ${groupId}
+    `
+    return result[0]?.message_settings ?? null
+  } catch (error) {
+    console.error("Error getting message settings:", error)
+    throw error
+  }
+}
+
+// Null goes back to the English defaults
+export async function setMessageSettings(
+  groupId: GroupId,
+  settings: MessageSettings | null,
+  db: Sql = sql,
+): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_groups SET message_settings = ${settings && JSON.stringify(settings)} WHERE id = ${groupId}
+    `
+  } catch (error) {
+    console.error("Error setting message settings:", error)
+    throw error
+  }
+}
+
+export async function addInvite(invite: Invite, createdBy: DriverId, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_invites (code, group_id, created_by, expires_at)
+      VALUES (${invite.code}, ${invite.groupId}, ${createdBy}, ${new Date(invite.expiresAt).toISOString()})
+    `
+  } catch (error) {
+    console.error("Error adding invite:", error)
+    throw error
+  }
+}
+
+// Marks an unused, unexpired invite as used by driverId; returns null if it cannot be redeemed
+export async function redeemInvite(code: string, driverId: DriverId, db: Sql = sql): Promise<Invite | null> {
+  try {
+    const result = await db`
+      UPDATE fuel_split_invites 
+      SET used_at = NOW(),
+          used_by = ${driverId}
+      WHERE code = ${code} AND used_at IS NULL AND expires_at > NOW()
+      RETURNING code, group_id, expires_at
+    `
+    const row = result[0]
+    return row ? { code: row.code, groupId: row.group_id, expiresAt: new Date(row.expires_at).getTime() } : null
+  } catch (error) {
+    console.error("Error redeeming invite:", error)
+    throw error
+  }
+}
+
+export async function findInvite(code: string, db: Sql = sql): Promise<Invite | null> {
+  try {
+    const result = await db`
+      SELECT code, group_id, expires_at
+      FROM fuel_split_invites 
+      WHERE code = ${code} AND used_at IS NULL AND expires_at > NOW()
+    `
+    const row = result[0]
+    return row ? { code: row.code, groupId: row.group_id, expiresAt: new Date(row.expires_at).getTime() } : null
+  } catch (error) {
+    console.error("Error finding invite:", error)
+    throw error
+  }
+}
+
+function toObligation(row: any): Obligation {
+  return {
+    id: row.id,
+    vehicleId: row.vehicle_id,
+    resetEntryId: row.reset_entry_id,
+    from: row.from_driver,
+    to: row.to_driver,
+    amount: Number(row.amount),
+    paid: Number(row.paid),
+    createdAt: Number(row.created_at),
+  }
+}
+
+export async function getLedger(groupId: GroupId, db: Sql = sql): Promise<Obligation[]> {
+  try {
+    const result = await db`
+      SELECT id, vehicle_id, reset_entry_id, from_driver, to_driver, amount, paid, created_at
+      FROM fuel_split_obligations 
+      WHERE group_id = ${groupId}
+      ORDER BY created_at ASC
+    `
+    return result.map(toObligation)
+  } catch (error) {
+    console.error("Error getting ledger:", error)
+    throw error
+  }
+}
+
+export async function getObligation(groupId: GroupId, obligationId: string, db: Sql = sql): Promise<Obligation | null> {
+  try {
+    const result = await db`
+      SELECT id, vehicle_id, reset_entry_id, from_driver, to_driver, amount, paid, created_at
+      FROM fuel_split_obligations 
+      WHERE id = ${obligationId} AND group_id = ${groupId}
+    `
+    return result[0] ? toObligation(result[0]) : null
+  } catch (error) {
+    console.error("Error getting obligation:", error)
+    throw error
+  }
+}
+
+export async function addObligation(obligation: Obligation, groupId: GroupId, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO fuel_split_obligations 
+      (id, group_id, vehicle_id, reset_entry_id, from_driver, to_driver, amount, paid, created_at)
+      VALUES (
+        ${obligation.id},
+        ${groupId},
+        ${obligation.vehicleId},
+        ${obligation.resetEntryId},
+        ${obligation.from},
+        ${obligation.to},
+        ${obligation.amount},
+        ${obligation.paid},
+        ${obligation.createdAt}
+      )
+    `
+  } catch (error) {
+    console.error("Error adding obligation:", error)
+    throw error
+  }
+}
+
+export async function updateObligationPaid(
+  obligation: Obligation,
+  groupId: GroupId,
+  db: Sql = sql,
+): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_obligations 
+      SET paid = ${obligation.paid}
+      WHERE id = ${obligation.id} AND group_id = ${groupId}
+    `
+  } catch (error) {
+    console.error("Error updating obligation:", error)
+    throw error
+  }
+}
+
+export async function removeObligations(resetEntryId: string, groupId: GroupId, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      DELETE FROM fuel_split_obligations 
+      WHERE reset_entry_id = ${resetEntryId} AND group_id = ${groupId}
+    `
+  } catch (error) {
+    console.error("Error removing obligations:", error)
+    throw error
+  }
+}
+
+// Vehicles whose price per km follows the pump price; all groups when groupId is null
+export async function getConsumptionPricedScopes(groupId: GroupId | null, db: Sql = sql): Promise<StateScope[]> {
+  try {
+    const result = await db`
+      SELECT group_id, vehicle_id
+      FROM fuel_split_state 
+      WHERE pricing_data->>'mode' = 'consumption'
+        AND (${groupId}::text IS NULL OR group_id = ${groupId})
+    `
+    return result.map((row: any) => ({ groupId: row.group_id, vehicleId: row.vehicle_id }))
+  } catch (error) {
+    console.error("Error getting consumption-priced vehicles:", error)
+    throw error
+  }
+}
+
+// Runs fn with the vehicle's state row locked, so concurrent writers queue up behind it
+export async function withAppState<T>(scope: StateScope, fn: (state: AppState, db: Sql) => Promise<T>): Promise<T> {
+  return await withTransaction(async (db) => {
+    await db`
+      SELECT id FROM fuel_split_state 
+      WHERE group_id = ${scope.groupId} AND vehicle_id = ${scope.vehicleId}
+      ORDER BY updated_at DESC 
+      LIMIT 1 
+      FOR UPDATE
+    `
+    const state = await getAppState(scope.groupId, scope.vehicleId, db)
+    return await fn(state, db)
+  })
+}
+
+// The group's entries matching the filter, oldest first
+export async function getEntries(groupId: GroupId, filter: EntryFilter, db: Sql = sql): Promise<VehicleEntry[]> {
+  try {
+    const result = await db`
+      SELECT id, vehicle_id, type, timestamp, reading, delta_km, attributed_to,
+             entered_by, note, snapshot_data, fill_up_data, payment_data, edits_data,
+             split_data, price_data, charge_data, removed_data
+      FROM fuel_split_entries 
+      WHERE group_id = ${groupId}
+        AND (${filter.vehicleId ?? null}::text IS NULL OR vehicle_id = ${filter.vehicleId ?? null})
+        AND (${filter.types ?? null}::text[] IS NULL OR type = ANY(${filter.types ?? null}))
+        AND (${filter.from ?? null}::bigint IS NULL OR timestamp >= ${filter.from ?? null})
+        AND (${filter.to ?? null}::bigint IS NULL OR timestamp <= ${filter.to ?? null})
+      ORDER BY timestamp ASC
+    `
+    return result.map((row: any) => ({ ...toEntry(row), vehicleId: row.vehicle_id }))
+  } catch (error) {
+    console.error("Error getting entries:", error)
+    throw error
+  }
+}
+
+// Timestamps of the vehicle's resets before the given time, newest first
+export async function getResetTimestamps(
+  scope: StateScope,
+  before: number | null,
+  limit: number,
+  db: Sql = sql,
+): Promise<number[]> {
+  try {
+    const result = await db`
+      SELECT timestamp
+      FROM fuel_split_entries 
+      WHERE group_id = ${scope.groupId} AND vehicle_id = ${scope.vehicleId} AND type = 'reset'
+        AND (${before}::bigint IS NULL OR timestamp < ${before})
+      ORDER BY timestamp DESC
+      LIMIT ${limit}
+    `
+    return result.map((row: any) => Number(row.timestamp))
+  } catch (error) {
+    console.error("Error getting reset timestamps:", error)
+    throw error
+  }
+}
+
+export async function addHistoryEntry(entry: Entry, scope: StateScope, db: Sql = sql): Promise<void> {
+  try {
+    await db`
       INSERT INTO fuel_split_entries 
-      (id, type, timestamp, reading, delta_km, attributed_to, entered_by, note, snapshot_data)
+      (id, group_id, vehicle_id, type, timestamp, reading, delta_km, attributed_to, entered_by, note, snapshot_data,
+       fill_up_data, payment_data, edits_data, split_data, price_data, charge_data, removed_data)
       VALUES (
         ${entry.id},
+        ${scope.groupId},
+        ${scope.vehicleId},
         ${entry.type},
         ${entry.timestamp},
         ${entry.reading || null},
@@ -120,7 +1014,14 @@ export async function addHistoryEntry(entry: Entry): Promise<void> {
         ${entry.attributedTo || null},
         ${entry.enteredBy || null},
         ${entry.note || null},
-        ${entry.snapshot ? JSON.stringify(entry.snapshot) : null}
+        ${entry.snapshot ? JSON.stringify(entry.snapshot) : null},
+        ${entry.fillUp ? JSON.stringify(entry.fillUp) : null},
+        ${entry.payment ? JSON.stringify(entry.payment) : null},
+        ${entry.edits ? JSON.stringify(entry.edits) : null},
+        ${entry.split ? JSON.stringify(entry.split) : null},
+        ${entry.price ? JSON.stringify(entry.price) : null},
+        ${entry.charge ? JSON.stringify(entry.charge) : null},
+        ${entry.removed ? JSON.stringify(entry.removed) : null}
       )
       ON CONFLICT (id) DO NOTHING
     `
@@ -130,11 +1031,27 @@ export async function addHistoryEntry(entry: Entry): Promise<void> {
   }
 }
 
-export async function removeHistoryEntry(entryId: string): Promise<void> {
+export async function updateHistoryEntry(entry: Entry, scope: StateScope, db: Sql = sql): Promise<void> {
+  try {
+    await db`
+      UPDATE fuel_split_entries 
+      SET reading = ${entry.reading ?? null},
+          delta_km = ${entry.deltaKm ?? null},
+          attributed_to = ${entry.attributedTo || null},
+          edits_data = ${entry.edits ? JSON.stringify(entry.edits) : null}
+      WHERE id = ${entry.id} AND group_id = ${scope.groupId} AND vehicle_id = ${scope.vehicleId}
+    `
+  } catch (error) {
+    console.error("Error updating history entry:", error)
+    throw error
+  }
+}
+
+export async function removeHistoryEntry(entryId: string, scope: StateScope, db: Sql = sql): Promise<void> {
   try {
-    await sql`
+    await db`
       DELETE FROM fuel_split_entries 
-      WHERE id = ${entryId}
+      WHERE id = ${entryId} AND group_id = ${scope.groupId} AND vehicle_id = ${scope.vehicleId}
     `
   } catch (error) {
     console.error("Error removing history entry:", error)
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { creditKm, equalSplit, splitKm } from "./drivers"
+
+describe("splitKm", () => {
+  it("splits a trip by percent", () => {
+    assert.deepEqual(splitKm(7, { dana: 50, noa: 50 }), { dana: 3.5, noa: 3.5 })
+    assert.deepEqual(splitKm(120, { dana: 25, noa: 75 }), { dana: 30, noa: 90 })
+  })
+
+  it("gives the last driver what rounding left over", () => {
+    const shares = splitKm(10, { dana: 33.33, noa: 33.33, omer: 33.34 })
+    assert.deepEqual(shares, { dana: 3.33, noa: 3.33, omer: 3.34 })
+    assert.equal(Math.round(Object.values(shares).reduce((sum, km) => sum + km, 0) * 100), 1000)
+  })
+
+  it("leaves out drivers with no share", () => {
+    assert.deepEqual(splitKm(40, { dana: 100, noa: 0 }), { dana: 40 })
+  })
+})
+
+describe("equalSplit", () => {
+  it("adds up to exactly 100", () => {
+    assert.deepEqual(equalSplit(["dana", "noa", "omer"]), { dana: 33.33, noa: 33.33, omer: 33.34 })
+    assert.deepEqual(equalSplit(["dana", "noa"]), { dana: 50, noa: 50 })
+  })
+})
+
+describe("creditKm", () => {
+  it("adds to running totals to 0.01 km", () => {
+    assert.deepEqual(creditKm({ dana: 0.1 }, { dana: 0.2, noa: 5 }), { dana: 0.3, noa: 5 })
+  })
+})
@@ -0,0 +1,72 @@
+import type { AppState, Driver, DriverId } from "@/lib/database"
+
+export function kmFor(kmBy: Record<DriverId, number>, id: DriverId): number {
+  return kmBy[id] ?? 0
+}
+
+export function totalKmOf(kmBy: Record<DriverId, number>): number {
+  return Object.values(kmBy).reduce((sum, km) => sum + km, 0)
+}
+
+export function driverName(drivers: Driver[], id: DriverId | null | undefined): string {
+  if (!id) return "-"
+  return drivers.find((d) => d.id === id)?.name ?? id
+}
+
+// Shared trips leave fractional km; shown to 0.01 km
+export function roundKm(km: number): number {
+  return Math.round(km * 100) / 100
+}
+
+// Equal to 0.01 km; sums of fractional shares pick up float noise
+export function sameKm(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005
+}
+
+// Shares of a shared trip, rounded to 0.01 km. The last driver gets what rounding left over,
+// so the shares always add up to the whole trip.
+export function splitKm(deltaKm: number, split: Record<DriverId, number>): Record<DriverId, number> {
+  const shares = Object.entries(split).filter(([, percent]) => percent > 0)
+  let rest = deltaKm
+  return Object.fromEntries(
+    shares.map(([id, percent], i) => {
+      const km = i === shares.length - 1 ? roundKm(rest) : Math.round(deltaKm * percent) / 100
+      rest -= km
+      return [id, km]
+    }),
+  )
+}
+
+// Even percentages that still add up to exactly 100
+export function equalSplit(ids: DriverId[]): Record<DriverId, number> {
+  const each = Math.floor(10000 / ids.length) / 100
+  return Object.fromEntries(
+    ids.map((id, i) => [id, i === ids.length - 1 ? Math.round((100 - each * (ids.length - 1)) * 100) / 100 : each]),
+  )
+}
+
+// Adds km to each driver's running total, rounded to 0.01 km so that the live writes and a
+// replay of the log come out the same
+export function creditKm(kmBy: Record<DriverId, number>, km: Record<DriverId, number>): Record<DriverId, number> {
+  const next = { ...kmBy }
+  for (const [id, n] of Object.entries(km)) {
+    next[id] = roundKm(kmFor(next, id) + n)
+  }
+  return next
+}
+
+// Active drivers, plus deactivated ones that still have km to settle
+export function visibleDrivers(drivers: Driver[], kmBy: Record<DriverId, number>): Driver[] {
+  return drivers.filter((d) => d.active || kmFor(kmBy, d.id) > 0)
+}
+
+// Best guess at who drove since the last reading, preselected on the mileage card: whoever
+// entered it, unless that was the session user. With exactly one other active driver the
+// guess is them, as in the two-person setup.
+export function inferDriver(state: AppState, sessionUser: DriverId): DriverId {
+  if (state.lastEnteredBy && state.lastEnteredBy !== sessionUser) {
+    return state.lastEnteredBy
+  }
+  const others = state.drivers.filter((d) => d.active && d.id !== sessionUser)
+  return others.length === 1 ? others[0].id : sessionUser
+}
@@ -0,0 +1,51 @@
+import { DICTIONARIES, type Dictionary } from "@/lib/i18n"
+
+export const STALE_STATE_MESSAGE = "State changed, reloading."
+
+// Thrown when a write was based on an outdated AppState.version
+export class StaleStateError extends Error {
+  constructor() {
+    super(STALE_STATE_MESSAGE)
+    this.name = "StaleStateError"
+  }
+}
+
+// What a write action returns instead of throwing a StaleStateError. Production builds replace
+// the message of an error thrown in a server action with a generic one, so the client couldn't
+// tell a stale write from any other failure.
+export type Stale = { stale: true }
+
+export const STALE: Stale = { stale: true }
+
+export function isStale(result: unknown): result is Stale {
+  return typeof result === "object" && result !== null && (result as Partial<Stale>).stale === true
+}
+
+export type ErrorKey = keyof Dictionary["serverErrors"]
+
+// A problem the user can fix. Write actions return its key as a Failure so the client can show
+// it in the user's language; the message is the English text, for logs and the API routes.
+export class UserError extends Error {
+  readonly key: ErrorKey
+
+  constructor(key: ErrorKey) {
+    super(DICTIONARIES.en.serverErrors[key])
+    this.name = "UserError"
+    this.key = key
+  }
+}
+
+export type Failure = { error: ErrorKey }
+
+export function isFailure(result: unknown): result is Failure {
+  return typeof result === "object" && result !== null && typeof (result as Partial<Failure>).error === "string"
+}
+
+// Schemas give their messages as keys; this checks them at compile time
+export function errorKey(key: ErrorKey): string {
+  return key
+}
+
+export function isErrorKey(value: string): value is ErrorKey {
+  return Object.hasOwn(DICTIONARIES.en.serverErrors, value)
+}
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { toCsv } from "./export"
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const csv = toCsv([{ driver: 'Dana "D" Levi', note: "a, b", station: "line\nbreak", km: 12 }])
+    assert.equal(csv, 'driver,note,station,km\r\n"Dana ""D"" Levi","a, b","line\nbreak",12')
+  })
+
+  it("prefixes text that starts like a formula", () => {
+    const csv = toCsv([{ a: "=SUM(A1)", b: "+972", c: "-x", d: "@home", e: "\tcmd", f: "plain" }])
+    assert.equal(csv.split("\r\n")[1], "'=SUM(A1),'+972,'-x,'@home,'\tcmd,plain")
+  })
+
+  it("leaves negative numbers and empty cells alone", () => {
+    assert.equal(toCsv([{ share: -12.5, note: undefined, paid_to: null }]), "share,note,paid_to\r\n-12.5,,")
+  })
+})
@@ -0,0 +1,97 @@
+import type { Driver, DriverId, Entry, Vehicle, VehicleEntry } from "@/lib/database"
+import { driverName, roundKm } from "@/lib/drivers"
+import { chargeCost, roundAgorot, settledAmount } from "@/lib/settlement"
+import { vehicleName } from "@/lib/vehicles"
+
+export type ExportFormat = "csv" | "json"
+
+// "entries" is the full log; "resets" is one row per driver per reset cycle
+export type ExportKind = "entries" | "resets"
+
+type Row = Record<string, string | number | null | undefined>
+
+// Whether the driver drove, entered, paid or was paid in this entry
+export function involvesDriver(entry: Entry, id: DriverId): boolean {
+  return (
+    entry.attributedTo === id ||
+    entry.enteredBy === id ||
+    entry.fillUp?.paidBy === id ||
+    entry.charge?.paidBy === id ||
+    entry.payment?.from === id ||
+    entry.payment?.to === id ||
+    (entry.split?.[id] ?? 0) > 0 ||
+    entry.snapshot?.kmBy[id] != null ||
+    entry.snapshot?.shares?.[id] != null
+  )
+}
+
+function amountOf(entry: Entry): number | null {
+  if (entry.type === "reset" || entry.type === "revert") return settledAmount(entry)
+  if (entry.fillUp) return entry.fillUp.amountPaid
+  if (entry.charge) return chargeCost(entry.charge)
+  if (entry.payment) return entry.payment.amount
+  return null
+}
+
+export function entryRows(entries: VehicleEntry[], drivers: Driver[], vehicles: Vehicle[]): Row[] {
+  return entries.map((e) => ({
+    date: new Date(e.timestamp).toISOString(),
+    vehicle: vehicleName(vehicles, e.vehicleId),
+    type: e.type,
+    reading: e.reading,
+    km: e.deltaKm,
+    driven_by: e.split
+      ? Object.entries(e.split)
+          .map(([id, percent]) => `${driverName(drivers, id)} ${percent}%`)
+          .join(" / ")
+      : e.attributedTo && driverName(drivers, e.attributedTo),
+    entered_by: e.enteredBy && driverName(drivers, e.enteredBy),
+    amount: amountOf(e),
+    paid_by: [e.fillUp?.paidBy, e.charge?.paidBy, e.payment?.from]
+      .filter(Boolean)
+      .map((id) => driverName(drivers, id))[0],
+    paid_to: e.payment && driverName(drivers, e.payment.to),
+    price_per_km: e.price?.pricePerKm ?? e.snapshot?.pricePerKm,
+    note: e.note,
+  }))
+}
+
+// Each reset's snapshot, one row per driver in the cycle; limited to one driver when given
+export function resetRows(entries: VehicleEntry[], drivers: Driver[], vehicles: Vehicle[], driver?: DriverId): Row[] {
+  return entries
+    .filter((e) => e.type === "reset" && e.snapshot)
+    .flatMap((e) => {
+      const snapshot = e.snapshot!
+      const ids = new Set([...Object.keys(snapshot.kmBy), ...Object.keys(snapshot.shares ?? {})])
+      return Array.from(ids)
+        .filter((id) => !driver || id === driver)
+        .map((id) => ({
+          date: new Date(e.timestamp).toISOString(),
+          vehicle: vehicleName(vehicles, e.vehicleId),
+          reset_id: e.id,
+          driver: driverName(drivers, id),
+          km: roundKm(snapshot.kmBy[id] ?? 0),
+          share: snapshot.shares?.[id] ?? roundAgorot((snapshot.kmBy[id] ?? 0) * snapshot.pricePerKm),
+          price_per_km: snapshot.pricePerKm,
+          cycle_km: roundKm(snapshot.totalKm),
+          cycle_total: settledAmount(e),
+        }))
+    })
+}
+
+// Text starting like a formula is prefixed with ' so spreadsheet apps show it instead of running it.
+// Numbers are left alone, negative amounts included.
+function csvCell(value: Row[string]): string {
+  if (value == null) return ""
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// RFC 4180 CSV with a header row taken from the first row's keys
+export function toCsv(rows: Row[]): string {
+  if (rows.length === 0) return ""
+  const columns = Object.keys(rows[0])
+  return [columns, ...rows.map((row) => columns.map((c) => row[c]))]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\r\n")
+}
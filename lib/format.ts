@@ -0,0 +1,7 @@
+export function formatCurrency(n: number, locale = "he-IL") {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: "ILS", maximumFractionDigits: 2 }).format(n)
+  } catch {
+    return `₪${n.toFixed(2)}`
+  }
+}
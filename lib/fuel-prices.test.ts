@@ -0,0 +1,75 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { filePriceProvider, parsePriceTable, priceInEffect, type FuelPrice } from "./fuel-prices"
+
+const FIXTURE = "scripts/fixtures/fuel-prices.csv"
+
+describe("parsePriceTable", () => {
+  it("reads the CSV fixture", async () => {
+    const prices = await filePriceProvider(FIXTURE).fetchPrices()
+    assert.equal(prices.length, 4)
+    assert.deepEqual(prices[0], { effectiveFrom: Date.parse("2025-07-01"), pricePerLiter: 7.23, grade: "95" })
+    assert.deepEqual(prices.map((p) => p.pricePerLiter), [7.23, 7.4, 7.29, 7.35])
+  })
+
+  it("reads CSV columns in any order and without a grade", () => {
+    const prices = parsePriceTable("Price_Per_Liter, Effective_From\r\n7.1, 2025-01-01\r\n", "csv")
+    assert.deepEqual(prices, [{ effectiveFrom: Date.parse("2025-01-01"), pricePerLiter: 7.1, grade: undefined }])
+  })
+
+  it("reads a JSON array", () => {
+    const prices = parsePriceTable(
+      JSON.stringify([
+        { effectiveFrom: "2025-07-01", pricePerLiter: 7.23, grade: "95" },
+        { effectiveFrom: "2025-08-01", pricePerLiter: "7.40" },
+      ]),
+      "json",
+    )
+    assert.deepEqual(prices, [
+      { effectiveFrom: Date.parse("2025-07-01"), pricePerLiter: 7.23, grade: "95" },
+      { effectiveFrom: Date.parse("2025-08-01"), pricePerLiter: 7.4, grade: undefined },
+    ])
+  })
+
+  it("rejects JSON that isn't an array", () => {
+    assert.throws(() => parsePriceTable('{"effectiveFrom":"2025-07-01"}', "json"), /must be a JSON array/)
+  })
+
+  it("rejects a CSV without the required columns", () => {
+    assert.throws(() => parsePriceTable("date,price\n2025-07-01,7.23\n", "csv"), /needs effective_from/)
+  })
+
+  it("rejects rows with a bad date or price", () => {
+    const header = "effective_from,price_per_liter\n"
+    assert.throws(() => parsePriceTable(`${header}soon,7.23\n`, "csv"), /Invalid price table row: soon/)
+    assert.throws(() => parsePriceTable(`${header}2025-07-01,free\n`, "csv"), /Invalid price table row/)
+    assert.throws(() => parsePriceTable(`${header}2025-07-01,0\n`, "csv"), /Invalid price table row/)
+    assert.throws(() => parsePriceTable('[{"effectiveFrom":"2025-07-01"}]', "json"), /Invalid price table row/)
+  })
+})
+
+describe("priceInEffect", () => {
+  it("picks the latest row already in effect from the fixture", async () => {
+    const prices = await filePriceProvider(FIXTURE).fetchPrices()
+    assert.equal(priceInEffect(prices, Date.parse("2025-08-15"))?.pricePerLiter, 7.4)
+    assert.equal(priceInEffect(prices, Date.parse("2025-09-01"))?.pricePerLiter, 7.29)
+  })
+
+  it("ignores rows that take effect later", async () => {
+    const prices = await filePriceProvider(FIXTURE).fetchPrices()
+    assert.equal(priceInEffect(prices, Date.parse("2025-06-30")), null)
+    assert.equal(priceInEffect(prices, Date.parse("2026-01-01"))?.pricePerLiter, 7.35)
+  })
+
+  it("filters by grade and keeps rows without one", () => {
+    const prices: FuelPrice[] = [
+      { effectiveFrom: Date.parse("2025-07-01"), pricePerLiter: 7.23, grade: "95" },
+      { effectiveFrom: Date.parse("2025-07-01"), pricePerLiter: 7.91, grade: "98" },
+      { effectiveFrom: Date.parse("2025-06-01"), pricePerLiter: 7.0 },
+    ]
+    const at = Date.parse("2025-07-15")
+    assert.equal(priceInEffect(prices, at, "95")?.pricePerLiter, 7.23)
+    assert.equal(priceInEffect(prices, at, "98")?.pricePerLiter, 7.91)
+    assert.equal(priceInEffect(prices, at, "diesel")?.pricePerLiter, 7.0)
+  })
+})
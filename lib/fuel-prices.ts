@@ -0,0 +1,95 @@
+import { readFile } from "fs/promises"
+
+// One row of a published price table: the pump price per liter from a given date on
+export type FuelPrice = {
+  effectiveFrom: number
+  pricePerLiter: number
+  grade?: string
+}
+
+export type FuelPriceProvider = {
+  name: string
+  fetchPrices: () => Promise<FuelPrice[]>
+}
+
+export type PriceTableFormat = "csv" | "json"
+
+function toFuelPrice(effectiveFrom: unknown, pricePerLiter: unknown, grade: unknown): FuelPrice {
+  const date = Date.parse(String(effectiveFrom))
+  const price = Number(pricePerLiter)
+  if (Number.isNaN(date) || !Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price table row: ${effectiveFrom}, ${pricePerLiter}`)
+  }
+  return { effectiveFrom: date, pricePerLiter: price, grade: grade != null && grade !== "" ? String(grade) : undefined }
+}
+
+// CSV with a header row of effective_from,price_per_liter and an optional grade column, or a
+// JSON array of { effectiveFrom, pricePerLiter, grade? }. Dates are anything Date.parse reads.
+export function parsePriceTable(text: string, format: PriceTableFormat): FuelPrice[] {
+  if (format === "json") {
+    const rows = JSON.parse(text)
+    if (!Array.isArray(rows)) {
+      throw new Error("Price table must be a JSON array.")
+    }
+    return rows.map((row) => toFuelPrice(row.effectiveFrom, row.pricePerLiter, row.grade))
+  }
+
+  const [header, ...lines] = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+  const columns = (header ?? "").split(",").map((c) => c.trim().toLowerCase())
+  const dateIndex = columns.indexOf("effective_from")
+  const priceIndex = columns.indexOf("price_per_liter")
+  const gradeIndex = columns.indexOf("grade")
+  if (dateIndex === -1 || priceIndex === -1) {
+    throw new Error("Price table needs effective_from and price_per_liter columns.")
+  }
+
+  return lines.map((line) => {
+    const cells = line.split(",").map((c) => c.trim())
+    return toFuelPrice(cells[dateIndex], cells[priceIndex], gradeIndex === -1 ? undefined : cells[gradeIndex])
+  })
+}
+
+function formatOf(source: string, contentType?: string | null): PriceTableFormat {
+  if (contentType?.includes("json")) return "json"
+  if (contentType?.includes("csv")) return "csv"
+  return source.toLowerCase().split("?")[0].endsWith(".json") ? "json" : "csv"
+}
+
+export function filePriceProvider(path: string): FuelPriceProvider {
+  return {
+    name: path,
+    fetchPrices: async () => parsePriceTable(await readFile(path, "utf8"), formatOf(path)),
+  }
+}
+
+export function urlPriceProvider(url: string): FuelPriceProvider {
+  return {
+    name: url,
+    fetchPrices: async () => {
+      const response = await fetch(url, { cache: "no-store" })
+      if (!response.ok) {
+        throw new Error(`Fetching ${url} failed with ${response.status}.`)
+      }
+      return parsePriceTable(await response.text(), formatOf(url, response.headers.get("content-type")))
+    },
+  }
+}
+
+// FUEL_PRICES_SOURCE is a URL or a file path; without it, importing is turned off
+export function priceProviderFromEnv(): FuelPriceProvider | null {
+  const source = process.env.FUEL_PRICES_SOURCE
+  if (!source) return null
+  return /^https?:\/\//.test(source) ? urlPriceProvider(source) : filePriceProvider(source)
+}
+
+// The latest price already in effect at the given time, for one grade when the table has several
+export function priceInEffect(prices: FuelPrice[], at: number, grade?: string): FuelPrice | null {
+  return (
+    prices
+      .filter((p) => p.effectiveFrom <= at && (!grade || !p.grade || p.grade === grade))
+      .sort((a, b) => b.effectiveFrom - a.effectiveFrom)[0] ?? null
+  )
+}
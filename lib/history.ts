@@ -0,0 +1,89 @@
+import { getEntries, getResetTimestamps, type DriverId, type Entry, type StateScope } from "@/lib/database"
+import { involvesDriver } from "@/lib/export"
+
+// Cycles per page of the History sheet; the first page also has the open cycle
+const CYCLES_PER_PAGE = 3
+
+export type HistoryFilter = {
+  driver: DriverId | null
+  // Empty means every type
+  types: Entry["type"][]
+  from: number | null
+  to: number | null
+}
+
+// One reset cycle: its entries from openedAt up to and including the reset that closed it
+export type HistoryCycle = {
+  // Null for the first cycle of the log
+  openedAt: number | null
+  // Null for the current, still open cycle
+  closedAt: number | null
+  // Newest first
+  entries: Entry[]
+}
+
+export type HistoryPage = {
+  cycles: HistoryCycle[]
+  // Pass back to get the next, older page; null on the last page
+  before: number | null
+}
+
+function matches(entry: Entry, filter: HistoryFilter): boolean {
+  return (
+    (filter.types.length === 0 || filter.types.includes(entry.type)) &&
+    (!filter.driver || involvesDriver(entry, filter.driver))
+  )
+}
+
+// A reset belongs to the cycle it closed. Anything else logged at the very time of a reset, like
+// a price change clamped to it, belongs to the cycle the reset opened.
+function inCycle(entry: Entry, cycle: HistoryCycle): boolean {
+  if (entry.type === "reset") return entry.timestamp === cycle.closedAt
+  return (
+    (cycle.openedAt === null || entry.timestamp >= cycle.openedAt) &&
+    (cycle.closedAt === null || entry.timestamp < cycle.closedAt)
+  )
+}
+
+// A page of cycles closed before `before`, newest first; the first page (before is null) starts
+// with the open cycle. Cycles without matching entries are left out, and older pages are read
+// until one matches.
+export async function loadHistoryPage(
+  scope: StateScope,
+  filter: HistoryFilter,
+  before: number | null,
+): Promise<HistoryPage> {
+  let cursor = before
+  for (;;) {
+    const resets = await getResetTimestamps(scope, cursor, cursor === null ? CYCLES_PER_PAGE : CYCLES_PER_PAGE + 1)
+    const closings = cursor === null ? [null, ...resets] : resets
+    const cycles: HistoryCycle[] = closings
+      .slice(0, CYCLES_PER_PAGE)
+      .map((closedAt, i) => ({ openedAt: closings[i + 1] ?? null, closedAt, entries: [] }))
+    if (cycles.length === 0) {
+      return { cycles: [], before: null }
+    }
+
+    const oldest = cycles[cycles.length - 1]
+    const from = Math.max(oldest.openedAt ?? 0, filter.from ?? 0)
+    const to = Math.min(cycles[0].closedAt ?? Infinity, filter.to ?? Infinity)
+    const entries =
+      from <= to
+        ? await getEntries(scope.groupId, {
+            vehicleId: scope.vehicleId,
+            from: from || undefined,
+            to: Number.isFinite(to) ? to : undefined,
+          })
+        : []
+    for (const e of entries.filter((e) => matches(e, filter)).reverse()) {
+      cycles.find((c) => inCycle(e, c))?.entries.push(e)
+    }
+
+    const next = oldest.openedAt === null ? null : oldest.closedAt
+    const matching = cycles.filter((c) => c.entries.length > 0)
+    if (matching.length > 0 || next === null || (filter.from !== null && next < filter.from)) {
+      return { cycles: matching, before: next }
+    }
+    cursor = next
+  }
+}
@@ -0,0 +1,1023 @@
+export type Locale = "he" | "en"
+
+// Holds the signed-in driver's language so the root layout can set lang and dir before any data loads
+export const LOCALE_COOKIE = "fuel-split-locale"
+
+export const LOCALE_TAGS: Record<Locale, string> = { he: "he-IL", en: "en-IL" }
+
+export const LOCALE_NAMES: Record<Locale, string> = { he: "עברית", en: "English" }
+
+export function localeOf(value: string | null | undefined): Locale {
+  return value === "he" ? "he" : "en"
+}
+
+export function dirOf(locale: Locale): "rtl" | "ltr" {
+  return locale === "he" ? "rtl" : "ltr"
+}
+
+const en = {
+  appName: "Fuel Split",
+  loading: "Loading...",
+  loadFailed: "Failed to load data. Please try again.",
+  tryAgain: "Try Again",
+  km: "km",
+  perKm: (price: string) => `${price} / km`,
+  save: "Save",
+  cancel: "Cancel",
+  close: "Close",
+  edit: "Edit",
+  delete: "Delete",
+  open: "Open",
+  allDrivers: "All drivers",
+  from: "From",
+  to: "To",
+  invalidRange: "The start date must be before the end date.",
+  back: "Back",
+
+  header: {
+    stats: "Stats",
+    history: "History",
+    settings: "Settings",
+    logOut: "Log out",
+  },
+
+  summary: {
+    chargingThisCycle: (sessions: number) => `Charging this cycle (${sessions})`,
+    odometer: "Odometer",
+    notSet: "Not set",
+    balances: "Balances",
+    ledger: "Ledger",
+    allSettled: "All settled.",
+    owes: (from: string, to: string) => `${from} owes ${to}`,
+  },
+
+  mileage: {
+    title: "Enter mileage",
+    description: "Credit goes to whoever drove since the last reading.",
+    drivenBy: "Driven by",
+    shared: "Shared",
+    missedHandover: "You entered the last reading too. Check who drove since then before adding.",
+    label: "Mileage (km)",
+    initialPlaceholder: "e.g. 1000 (initial)",
+    lastPlaceholder: (reading: number) => `Last: ${reading} km`,
+    undo: "Undo last",
+    undoTitle: "Undo last entry",
+    add: "Add mileage",
+    logCharging: "Log charging",
+    settleAndReset: "Settle & reset",
+    fillUpAndReset: "Fill-up & reset",
+    resetAndShare: "Reset & share",
+    invalid: "Please enter a valid mileage (km).",
+    confirmUndoReset: "Undo the last reset? The cycle's km come back and what it left owing is dropped.",
+    confirmSettle: "Settle this cycle's charging and reset?",
+  },
+
+  fillUp: {
+    title: "Fill-up",
+    description: "Enter the receipt. The cost is split by km and the cycle is reset.",
+    liters: "Liters",
+    litersPlaceholder: "e.g. 42.5",
+    amountPaid: "Amount paid (ILS)",
+    amountPlaceholder: "e.g. 300",
+    paidBy: "Paid by",
+    station: "Station (optional)",
+    stationPlaceholder: "e.g. Paz Herzliya",
+  },
+
+  settings: {
+    description: (vehicle: string) => `Set constants and preferences for ${vehicle}.`,
+    language: "Language",
+    effectiveFrom: "New price effective from",
+    effectiveFromHint: "Leave empty for now. Km already driven keep the price they were driven at.",
+    startingMileage: "Starting mileage (km)",
+    startingMileagePlaceholder: "e.g. 1000",
+    startingMileageHint: "If an initial reading already exists, this is informational only.",
+    consistency: "Data consistency",
+    check: "Check",
+    consistencyHint: "Compares the saved totals with a replay of the full history.",
+    totalsMatch: "Totals match the history.",
+    repair: "Repair from history",
+    backup: "Backup & restore",
+  },
+
+  errors: {
+    stale: "Someone else saved first. Reloading their numbers.",
+    addMileage: "Failed to add mileage. Please try again.",
+    undo: "Failed to undo. Please try again.",
+    reset: "Failed to reset. Please try again.",
+    logCharge: "Failed to log charging.",
+    saveSettings: "Failed to save settings. Please try again.",
+    invite: "Failed to create invite. Please try again.",
+    check: "Failed to check consistency. Please try again.",
+    repair: "Failed to repair. Please try again.",
+    saveEntry: "Failed to save entry. Please try again.",
+    deleteEntry: "Failed to delete entry. Please try again.",
+    importPrice: "Failed to update the fuel price. Please try again.",
+    renameVehicle: "Failed to rename vehicle.",
+    setEnergy: "Failed to change energy type.",
+    addVehicle: "Failed to add vehicle.",
+    renameDriver: "Failed to rename driver.",
+    updateDriver: "Failed to update driver.",
+    addDriver: "Failed to add driver.",
+    saveNotifications: "Failed to save notifications.",
+    sendTest: "Failed to send the test.",
+    saveMessage: "Failed to save the message.",
+    setLanguage: "Failed to change the language.",
+    recordPayment: "Failed to record payment. Please try again.",
+    loadHistory: "Failed to load history.",
+  },
+
+  // Errors the server reports by key, see UserError
+  serverErrors: {
+    invalidInput: "Invalid input.",
+    notSignedIn: "Not signed in. Please log in again.",
+    tooManyAttempts: "Too many failed attempts. Try again in 15 minutes.",
+    invalidCode: "Invalid code",
+    accessCodeTooShort: "Access code must be at least 4 characters.",
+    unknownDriver: "Unknown driver.",
+    driverNameRequired: "Driver name is required.",
+    driverNameTooLong: "Driver name is too long.",
+    driverNameTaken: "A driver with this name already exists.",
+    driverNotAdded: "This name or access code can't be used. Pick a different name or code.",
+    cannotDeactivateSelf: "You cannot deactivate yourself.",
+    unknownVehicle: "Unknown vehicle.",
+    vehicleNameRequired: "Vehicle name is required.",
+    vehicleNameTooLong: "Vehicle name is too long.",
+    vehicleNameTaken: "A vehicle with this name already exists.",
+    unknownEnergyType: "Unknown energy type.",
+    vehicleDoesNotCharge: "This vehicle doesn't charge. Change its energy type in settings.",
+    invalidInviteCode: "Invalid invite code.",
+    inviteExpired: "This invite has expired or was already used.",
+    groupNameRequired: "Group name is required.",
+    groupNameTooLong: "Group name is too long.",
+    invalidMileage: "Please enter a valid mileage (km).",
+    mileageNotWhole: "Mileage must be a whole number of km.",
+    mileageDecreased: "Mileage cannot decrease. Please check the value.",
+    setInitialReadingFirst: "Set the initial reading first.",
+    nothingToUndo: "No entry to undo",
+    onlyMileageEditable: "Only mileage entries can be edited.",
+    onlyMileageDeletable: "Only mileage entries can be deleted.",
+    splitNegative: "Split can't be negative.",
+    splitNeedsTwoDrivers: "A shared trip needs at least two drivers.",
+    splitNot100: "Split must add up to 100%.",
+    litersNotNumber: "Liters must be a number.",
+    litersNotPositive: "Liters must be greater than 0.",
+    litersTooLarge: "Liters looks too large.",
+    amountNotNumber: "Amount paid must be a number.",
+    amountNotPositive: "Amount paid must be greater than 0.",
+    stationTooLong: "Station name is too long.",
+    enterReceipt: "Enter the fill-up receipt.",
+    electricNoFuel: "Electric vehicles don't take fuel.",
+    nothingToSettle: "Nothing to settle yet. Log a charging session first.",
+    kmMismatch: "The cycle's km don't match its readings. Run the consistency check in settings first.",
+    kWhNotNumber: "kWh must be a number.",
+    kWhNotPositive: "kWh must be greater than 0.",
+    pricePerKwhNotNumber: "Price per kWh must be a number.",
+    pricePerKwhNegative: "Price per kWh can't be negative.",
+    pickLocation: "Pick home or public.",
+    unknownObligation: "Unknown obligation.",
+    paymentNotNumber: "Payment must be a number.",
+    paymentNotPositive: "Payment must be greater than 0.",
+    paymentTooLarge: "Payment is more than what is owed.",
+    paymentsAlreadyRecorded: "Payments were already recorded for this reset.",
+    pricePerKmNotNumber: "Price per km must be a number.",
+    pricePerKmNotPositive: "Price per km must be greater than 0.",
+    startingMileageNotNumber: "Starting mileage must be a number.",
+    startingMileageNotWhole: "Starting mileage must be a whole number of km.",
+    startingMileageNegative: "Starting mileage must be >= 0.",
+    invalidEffectiveDate: "Invalid effective date.",
+    priceInFuture: "A price change can't take effect in the future.",
+    priceBeforeReset: "A price change can't take effect before the last reset or price change.",
+    fuelPriceNotNumber: "Fuel price must be a number.",
+    fuelPriceNotPositive: "Fuel price must be greater than 0.",
+    consumptionNotNumber: "Consumption must be a number.",
+    consumptionNotPositive: "Consumption must be greater than 0.",
+    noPriceSource: "No fuel price source is configured.",
+    invalidDate: "Invalid date.",
+    invalidRange: "The start date must be before the end date.",
+    unknownEntryType: "Unknown entry type.",
+    phoneNumber: "Enter the phone number with its country code.",
+    telegramChatId: "Enter your Telegram chat id.",
+    invalidEmail: "Enter a valid email address.",
+    invalidUrl: "Enter a valid URL.",
+    webhookNotHttps: "The webhook URL must start with https://.",
+    webhookNotPublic: "The webhook URL must point to a public address.",
+    unknownChannel: "Unknown notification channel.",
+    channelNotConfigured: "That channel isn't set up on the server.",
+    noDestination: "Save where to send summaries first.",
+    testNotSent: "The test couldn't be sent. Check the address and try again.",
+    templateLineTooLong: "Message lines are limited to 200 characters.",
+    unknownLanguage: "Unknown language.",
+    unknownTimeZone: "Unknown time zone.",
+    exportFormat: "Format must be csv or json.",
+    exportKind: "Kind must be entries or resets.",
+    notABackup: "This isn't a Fuel Split backup.",
+    backupNoVersion: "The backup has no version.",
+    backupNotJson: "The backup file isn't valid JSON.",
+    backupVersion: "This backup was made by a different version of Fuel Split and can't be restored.",
+    backupInvalid: "The backup file is damaged or was edited by hand.",
+    backupOtherGroup: "This backup belongs to another group.",
+    backupLocksYouOut: "You aren't an active driver in this backup, so you'd be locked out after restoring it.",
+    backupNoVehicles: "The backup has no vehicles.",
+    backupStates: "The backup needs exactly one state per vehicle.",
+    backupUnknownVehicle: "The backup has entries for a vehicle it doesn't include.",
+    backupUnknownDriver: "The backup has obligations between drivers it doesn't include.",
+    restoreFailed: "Failed to restore. Nothing was changed.",
+  },
+
+  history: {
+    description: (vehicle: string) => `Mileage entries, resets and payments for ${vehicle}.`,
+    types: {
+      mileage: "Mileage",
+      resets: "Resets",
+      charging: "Charging",
+      payments: "Payments",
+      prices: "Prices",
+      corrections: "Corrections",
+    },
+    empty: "No history yet.",
+    loadOlder: "Load older cycles",
+    currentCycle: "Current cycle",
+    currentCycleSince: (opened: string) => `Current cycle, since ${opened}`,
+    cycle: (opened: string, closed: string) => `Cycle ${opened} – ${closed}`,
+    cycleUntil: (closed: string) => `Cycle until ${closed}`,
+    reset: "Reset",
+    fillUp: (liters: number, station: string | undefined, payer: string) =>
+      `${liters} L${station ? ` at ${station}` : ""}, paid by ${payer}`,
+    charged: (amount: string) => `Charging: ${amount}`,
+    total: "Total",
+    atPrice: (price: string) => `At ${price} / km`,
+    charging: "Charging",
+    home: "Home",
+    public: "Public",
+    paidBy: "Paid by",
+    priceChange: "Price change",
+    pricePerKm: "Price per km",
+    changedBy: "Changed by",
+    resetUndone: "Reset undone",
+    resetReverted: (at: string) => `Reset of ${at} reverted`,
+    entryRemoved: (at: string, reading: string, drivers: string) =>
+      `Entry of ${at} deleted (${reading} km, credited to ${drivers})`,
+    entryDeleted: "Entry deleted",
+    revertedTotal: "Reverted total",
+    undoneBy: "Undone by",
+    deletedBy: "Deleted by",
+    payment: "Payment",
+    paidOf: (paid: string, amount: string) => `${paid} of ${amount} paid`,
+    initialReading: "Initial reading",
+    sharedTrip: "Shared trip",
+    mileageEntry: "Mileage entry",
+    reading: "Reading",
+    enteredBy: "Entered by",
+    creditedTo: "Credited to",
+    was: (reading: string) => `Was ${reading} km`,
+    wasCreditedTo: (driver: string) => `, credited to ${driver}`,
+    editedBy: (driver: string, at: string) => ` • edited by ${driver} ${at}`,
+    confirmDelete: "Delete this entry? Later entries are recalculated.",
+  },
+
+  exports: {
+    title: "Export",
+    thisVehicle: "This vehicle",
+    allVehicles: "All vehicles",
+    entriesCsv: "Entries CSV",
+    entriesJson: "Entries JSON",
+    resetsCsv: "Resets CSV",
+    resetsJson: "Resets JSON",
+    statement: "Monthly statement",
+  },
+
+  vehicles: {
+    title: "Vehicle",
+    rename: "Rename",
+    energy: {
+      fuel: "Fuel",
+      electric: "Electric",
+      plugInHybrid: "Plug-in hybrid",
+    },
+    addPlaceholder: "Add another vehicle",
+    add: "Add",
+    hint:
+      "Each vehicle has its own odometer, price and reset cycle. Electric and plug-in hybrid vehicles can log " +
+      "charging sessions, which are settled with the next reset.",
+  },
+
+  drivers: {
+    title: "Drivers",
+    rename: "Rename",
+    you: "You",
+    deactivate: "Deactivate",
+    activate: "Activate",
+    newDriver: "New driver",
+    accessCode: "Access code",
+    add: "Add",
+    hint: "Deactivated drivers keep their history but can no longer log in.",
+  },
+
+  invites: {
+    title: "Invites",
+    inviteDriver: "Invite a driver to this group",
+    groupName: "New group name",
+    create: "Create",
+    copy: "Copy",
+    hint: "Invite links work once and expire after 7 days. A new group gets its own drivers, cars and history.",
+  },
+
+  notify: {
+    title: "Reset summaries",
+    loadFailed: "Failed to load notification settings.",
+    byHand: "Share by hand",
+    channels: {
+      whatsapp: "WhatsApp",
+      telegram: "Telegram",
+      email: "Email",
+      webhook: "Webhook",
+    },
+    placeholders: {
+      whatsapp: "Phone number, e.g. +972501234567",
+      telegram: "Chat id from the bot's /start reply",
+      email: "you@example.com",
+      webhook: "https://…",
+    },
+    sendTest: "Send a test",
+    testSent: "Test sent.",
+    automatic: "Summaries are sent to you automatically at every reset.",
+    manual: "Without a destination, summaries are shared by hand through a WhatsApp link.",
+  },
+
+  message: {
+    title: "Reset message",
+    loadFailed: "Failed to load the message settings.",
+    restoreDefaults: "Restore defaults",
+    lines: {
+      title: "Title",
+      fillUp: "Fill-up",
+      station: "Station",
+      charging: "Charging",
+      totalsHeader: "Before the drivers",
+      driver: "Each driver",
+      total: "Total",
+      odometer: "Odometer",
+      transfersHeader: "Before the transfers",
+      transfer: "Each transfer",
+      nothingToSettle: "Nothing to settle",
+    },
+    placeholders: (list: string) => `Placeholders: ${list}. `,
+    blankLines: "Lines left blank, or whose placeholders have no value at this reset, are left out.",
+    preview: "Preview",
+    save: "Save message",
+  },
+
+  pricing: {
+    modes: {
+      perKm: "Price per km",
+      consumption: "Fuel price × consumption",
+    },
+    pricePerKm: "Price per km (ILS)",
+    pricePerKmPlaceholder: "e.g. 0.5",
+    fuelPrice: "Fuel price (ILS / L)",
+    fuelPricePlaceholder: "e.g. 7.5",
+    consumption: "Consumption (L / 100 km)",
+    consumptionPlaceholder: "e.g. 6.5",
+    derived: (price: string) => `That's ${price} per km.`,
+    enterBoth: "Enter both to get the price per km.",
+    importTitle: "Fetch the official pump price now",
+    import: "Update fuel price",
+    measured: (litersPer100Km: number, liters: number, km: number) =>
+      `Measured from fill-ups: ${litersPer100Km} L / 100 km (${liters} L over ${km} km)`,
+    use: "Use",
+  },
+
+  charge: {
+    title: "Charging session",
+    description: "Charging costs add up during the cycle and are split by km at the next reset.",
+    energy: "Energy (kWh)",
+    energyPlaceholder: "e.g. 32",
+    pricePerKwh: "Price per kWh (ILS)",
+    pricePerKwhPlaceholder: "e.g. 0.64",
+    where: "Where",
+    locations: {
+      home: "Home",
+      public: "Public charger",
+    },
+    paidBy: "Paid by",
+    cost: (cost: string) => `Cost: ${cost}`,
+    submit: "Log charging",
+  },
+
+  ledger: {
+    title: "Ledger",
+    description: "What each reset left owing. Record payments as they happen, in full or in part.",
+    empty: "Nothing owed yet.",
+    status: {
+      outstanding: "outstanding",
+      partial: "partial",
+      settled: "settled",
+    },
+    owed: "Owed",
+    paid: "Paid",
+    markPaid: "Mark paid",
+  },
+
+  login: {
+    title: "Fuel Split Login",
+    description: "Enter your one-time code. Only registered drivers can access.",
+    code: "Access Code",
+    codePlaceholder: "Enter your code",
+    askOwner: "Ask the car owner for your code, or ",
+    joinWithInvite: "join with an invite",
+    submit: "Enter",
+    failed: "Failed to log in. Please try again.",
+  },
+
+  join: {
+    title: "Join Fuel Split",
+    description: "Pick your name and a personal access code for logging in.",
+    inviteCode: "Invite code",
+    name: "Your name",
+    code: "Access code",
+    codePlaceholder: "At least 4 digits",
+    submit: "Join",
+    failed: "Failed to join. Please try again.",
+  },
+
+  stats: {
+    title: "Stats",
+    loadFailed: "Failed to load stats.",
+    allVehicles: "All vehicles",
+    daysBetweenFillUps: "Days between fill-ups",
+    costPerKm: "Average cost per km",
+    kmPerDriver: "Km per driver",
+    periods: {
+      week: "Weekly",
+      month: "Monthly",
+    },
+    kmShare: (km: number, percent: number) => `${km} km • ${percent}%`,
+    costPerCycle: "Cost per cycle",
+    sharePerCycle: "Share of km per cycle",
+    empty: "Nothing in this range.",
+    cycleCost: "Cycle cost",
+  },
+
+  statement: {
+    title: "Monthly statement",
+    loadFailed: "Failed to load the statement.",
+    month: "Month",
+    downloadPdf: "Download PDF",
+    pdfFailed: "Couldn't create the PDF. Please try again.",
+    print: "Print",
+    empty: "Nobody drove or paid for fuel this month.",
+    documentTitle: "Driving cost statement",
+    issued: (date: string) => `Issued ${date}`,
+    kmDriven: "Km driven",
+    noKm: "No km this month.",
+    columns: {
+      date: "Date",
+      vehicle: "Vehicle",
+      reading: "Reading",
+      km: "Km",
+      pricePerKm: "Price / km",
+      amount: "Amount",
+    },
+    shared: (vehicle: string) => `${vehicle} (shared)`,
+    paidHeading: "Fill-ups and charging paid",
+    nonePaid: "None this month.",
+    fuel: (liters: number, station: string | undefined) => `Fuel, ${liters} L${station ? ` at ${station}` : ""}`,
+    charging: (kWh: number, location: string) => `Charging, ${kWh} kWh (${location})`,
+    settledHeading: "Settled at resets",
+    totalKm: "Total km",
+    kmCost: "Cost of km at the prices in effect",
+    paid: "Paid for fuel and charging",
+    owed: "Total owed",
+    refund: "Total to be refunded",
+    signature: (name: string) => `Signature (${name})`,
+    date: "Date",
+    summary: "Summary",
+    summaryColumns: {
+      driver: "Driver",
+      km: "Km",
+      kmCost: "Km cost",
+      paid: "Paid",
+      owed: "Owed",
+    },
+  },
+
+  admin: {
+    title: "Backup & restore",
+    description: "Keep a copy of your group's data outside the database, or bring one back.",
+    backup: "Backup",
+    backupHint:
+      "Drivers, vehicles, settings, every entry and the ledger, as one JSON file. Access codes are left out: " +
+      "drivers keep the ones they have, and drivers a restore brings back need a new one.",
+    download: "Download backup",
+    restore: "Restore",
+    restoreHint: "Replaces everything with the backup. It's checked first; if anything is wrong, nothing changes.",
+    restoreButton: "Restore from backup",
+    confirmRestore: (file: string) => `Replace all vehicles, history and balances with ${file}? This can't be undone.`,
+    restored: (vehicles: number, entries: number) => `Restored ${vehicles} vehicle(s) and ${entries} entries.`,
+  },
+}
+
+export type Dictionary = typeof en
+
+const he: Dictionary = {
+  appName: "חלוקת דלק",
+  loading: "טוען...",
+  loadFailed: "טעינת הנתונים נכשלה. נסו שוב.",
+  tryAgain: "נסו שוב",
+  km: "ק״מ",
+  perKm: (price) => `${price} לק״מ`,
+  save: "שמירה",
+  cancel: "ביטול",
+  close: "סגירה",
+  edit: "עריכה",
+  delete: "מחיקה",
+  open: "פתיחה",
+  allDrivers: "כל הנהגים",
+  from: "מתאריך",
+  to: "עד תאריך",
+  invalidRange: "תאריך ההתחלה חייב להיות לפני תאריך הסיום.",
+  back: "חזרה",
+
+  header: {
+    stats: "סטטיסטיקה",
+    history: "היסטוריה",
+    settings: "הגדרות",
+    logOut: "התנתקות",
+  },
+
+  summary: {
+    chargingThisCycle: (sessions) => `טעינות בסבב הזה (${sessions})`,
+    odometer: "מד קילומטרים",
+    notSet: "לא הוגדר",
+    balances: "יתרות",
+    ledger: "פנקס חובות",
+    allSettled: "הכול מסודר.",
+    owes: (from, to) => `${from} חייב/ת ל${to}`,
+  },
+
+  mileage: {
+    title: "הזנת קילומטראז׳",
+    description: "הק״מ נזקפים למי שנהג/ה מאז הקריאה הקודמת.",
+    drivenBy: "מי נהג/ה",
+    shared: "משותף",
+    missedHandover: "גם את הקריאה הקודמת הזנת את/ה. כדאי לבדוק מי נהג/ה מאז לפני ההוספה.",
+    label: "קילומטראז׳ (ק״מ)",
+    initialPlaceholder: "למשל 1000 (קריאה ראשונה)",
+    lastPlaceholder: (reading) => `אחרון: ${reading} ק״מ`,
+    undo: "ביטול האחרון",
+    undoTitle: "ביטול הרישום האחרון",
+    add: "הוספת קילומטראז׳",
+    logCharging: "רישום טעינה",
+    settleAndReset: "התחשבנות ואיפוס",
+    fillUpAndReset: "תדלוק ואיפוס",
+    resetAndShare: "איפוס ושיתוף",
+    invalid: "נא להזין קילומטראז׳ תקין (ק״מ).",
+    confirmUndoReset: "לבטל את האיפוס האחרון? הק״מ של הסבב חוזרים והחובות שנוצרו בו נמחקים.",
+    confirmSettle: "להתחשבן על הטעינות של הסבב ולאפס?",
+  },
+
+  fillUp: {
+    title: "תדלוק",
+    description: "הזינו את הקבלה. העלות מתחלקת לפי ק״מ והסבב מתאפס.",
+    liters: "ליטרים",
+    litersPlaceholder: "למשל 42.5",
+    amountPaid: "סכום ששולם (₪)",
+    amountPlaceholder: "למשל 300",
+    paidBy: "מי שילם/ה",
+    station: "תחנה (לא חובה)",
+    stationPlaceholder: "למשל פז הרצליה",
+  },
+
+  settings: {
+    description: (vehicle) => `קבועים והעדפות עבור ${vehicle}.`,
+    language: "שפה",
+    effectiveFrom: "המחיר החדש בתוקף מ־",
+    effectiveFromHint: "השאירו ריק לעכשיו. ק״מ שכבר נסעו נשארים במחיר שבו נסעו.",
+    startingMileage: "קילומטראז׳ התחלתי (ק״מ)",
+    startingMileagePlaceholder: "למשל 1000",
+    startingMileageHint: "אם כבר קיימת קריאה ראשונה, זה לידיעה בלבד.",
+    consistency: "תקינות הנתונים",
+    check: "בדיקה",
+    consistencyHint: "משווה את הסכומים השמורים לחישוב מחדש של כל ההיסטוריה.",
+    totalsMatch: "הסכומים תואמים להיסטוריה.",
+    repair: "תיקון לפי ההיסטוריה",
+    backup: "גיבוי ושחזור",
+  },
+
+  errors: {
+    stale: "מישהו אחר שמר קודם. טוענים את הנתונים שלו.",
+    addMileage: "הוספת הקילומטראז׳ נכשלה. נסו שוב.",
+    undo: "הביטול נכשל. נסו שוב.",
+    reset: "האיפוס נכשל. נסו שוב.",
+    logCharge: "רישום הטעינה נכשל.",
+    saveSettings: "שמירת ההגדרות נכשלה. נסו שוב.",
+    invite: "יצירת ההזמנה נכשלה. נסו שוב.",
+    check: "בדיקת התקינות נכשלה. נסו שוב.",
+    repair: "התיקון נכשל. נסו שוב.",
+    saveEntry: "שמירת הרישום נכשלה. נסו שוב.",
+    deleteEntry: "מחיקת הרישום נכשלה. נסו שוב.",
+    importPrice: "עדכון מחיר הדלק נכשל. נסו שוב.",
+    renameVehicle: "שינוי שם הרכב נכשל.",
+    setEnergy: "שינוי סוג ההנעה נכשל.",
+    addVehicle: "הוספת הרכב נכשלה.",
+    renameDriver: "שינוי שם הנהג/ת נכשל.",
+    updateDriver: "עדכון הנהג/ת נכשל.",
+    addDriver: "הוספת הנהג/ת נכשלה.",
+    saveNotifications: "שמירת ההתראות נכשלה.",
+    sendTest: "שליחת הבדיקה נכשלה.",
+    saveMessage: "שמירת ההודעה נכשלה.",
+    setLanguage: "החלפת השפה נכשלה.",
+    recordPayment: "רישום התשלום נכשל. נסו שוב.",
+    loadHistory: "טעינת ההיסטוריה נכשלה.",
+  },
+
+  serverErrors: {
+    invalidInput: "קלט לא תקין.",
+    notSignedIn: "לא מחובר/ת. נא להתחבר מחדש.",
+    tooManyAttempts: "יותר מדי ניסיונות כושלים. נסו שוב בעוד 15 דקות.",
+    invalidCode: "קוד לא תקין",
+    accessCodeTooShort: "קוד הגישה חייב להכיל לפחות 4 תווים.",
+    unknownDriver: "נהג/ת לא מוכר/ת.",
+    driverNameRequired: "חובה להזין שם נהג/ת.",
+    driverNameTooLong: "שם הנהג/ת ארוך מדי.",
+    driverNameTaken: "כבר קיים/ת נהג/ת בשם הזה.",
+    driverNotAdded: "אי אפשר להשתמש בשם או בקוד הגישה האלה. בחרו שם או קוד אחרים.",
+    cannotDeactivateSelf: "אי אפשר להשבית את עצמך.",
+    unknownVehicle: "רכב לא מוכר.",
+    vehicleNameRequired: "חובה להזין שם רכב.",
+    vehicleNameTooLong: "שם הרכב ארוך מדי.",
+    vehicleNameTaken: "כבר קיים רכב בשם הזה.",
+    unknownEnergyType: "סוג אנרגיה לא מוכר.",
+    vehicleDoesNotCharge: "הרכב הזה לא נטען. אפשר לשנות את סוג האנרגיה בהגדרות.",
+    invalidInviteCode: "קוד הזמנה לא תקין.",
+    inviteExpired: "תוקף ההזמנה פג או שכבר נעשה בה שימוש.",
+    groupNameRequired: "חובה להזין שם קבוצה.",
+    groupNameTooLong: "שם הקבוצה ארוך מדי.",
+    invalidMileage: "נא להזין קילומטראז׳ תקין (ק״מ).",
+    mileageNotWhole: "הקילומטראז׳ חייב להיות מספר שלם של ק״מ.",
+    mileageDecreased: "הקילומטראז׳ לא יכול לרדת. נא לבדוק את הערך.",
+    setInitialReadingFirst: "קודם צריך להזין קריאה ראשונה.",
+    nothingToUndo: "אין רישום לבטל",
+    onlyMileageEditable: "אפשר לערוך רק רישומי קילומטראז׳.",
+    onlyMileageDeletable: "אפשר למחוק רק רישומי קילומטראז׳.",
+    splitNegative: "החלוקה לא יכולה להיות שלילית.",
+    splitNeedsTwoDrivers: "נסיעה משותפת צריכה לפחות שני נהגים.",
+    splitNot100: "סכום החלוקה חייב להיות 100%.",
+    litersNotNumber: "הליטרים חייבים להיות מספר.",
+    litersNotPositive: "הליטרים חייבים להיות יותר מ-0.",
+    litersTooLarge: "כמות הליטרים נראית גדולה מדי.",
+    amountNotNumber: "הסכום ששולם חייב להיות מספר.",
+    amountNotPositive: "הסכום ששולם חייב להיות יותר מ-0.",
+    stationTooLong: "שם התחנה ארוך מדי.",
+    enterReceipt: "נא להזין את קבלת התדלוק.",
+    electricNoFuel: "רכב חשמלי לא מתדלק.",
+    nothingToSettle: "אין עדיין על מה להתחשבן. קודם צריך לרשום טעינה.",
+    kmMismatch: "הק״מ של הסבב לא תואמים לקריאות. קודם הריצו את בדיקת התקינות בהגדרות.",
+    kWhNotNumber: "קוט״ש חייב להיות מספר.",
+    kWhNotPositive: "קוט״ש חייב להיות יותר מ-0.",
+    pricePerKwhNotNumber: "המחיר לקוט״ש חייב להיות מספר.",
+    pricePerKwhNegative: "המחיר לקוט״ש לא יכול להיות שלילי.",
+    pickLocation: "נא לבחור בית או ציבורי.",
+    unknownObligation: "חוב לא מוכר.",
+    paymentNotNumber: "התשלום חייב להיות מספר.",
+    paymentNotPositive: "התשלום חייב להיות יותר מ-0.",
+    paymentTooLarge: "התשלום גדול ממה שנשאר לשלם.",
+    paymentsAlreadyRecorded: "כבר נרשמו תשלומים על האיפוס הזה.",
+    pricePerKmNotNumber: "המחיר לק״מ חייב להיות מספר.",
+    pricePerKmNotPositive: "המחיר לק״מ חייב להיות יותר מ-0.",
+    startingMileageNotNumber: "הקילומטראז׳ ההתחלתי חייב להיות מספר.",
+    startingMileageNotWhole: "הקילומטראז׳ ההתחלתי חייב להיות מספר שלם של ק״מ.",
+    startingMileageNegative: "הקילומטראז׳ ההתחלתי לא יכול להיות שלילי.",
+    invalidEffectiveDate: "תאריך תחילה לא תקין.",
+    priceInFuture: "שינוי מחיר לא יכול להיכנס לתוקף בעתיד.",
+    priceBeforeReset: "שינוי מחיר לא יכול להיכנס לתוקף לפני האיפוס או שינוי המחיר האחרונים.",
+    fuelPriceNotNumber: "מחיר הדלק חייב להיות מספר.",
+    fuelPriceNotPositive: "מחיר הדלק חייב להיות יותר מ-0.",
+    consumptionNotNumber: "הצריכה חייבת להיות מספר.",
+    consumptionNotPositive: "הצריכה חייבת להיות יותר מ-0.",
+    noPriceSource: "לא הוגדר מקור למחירי דלק.",
+    invalidDate: "תאריך לא תקין.",
+    invalidRange: "תאריך ההתחלה חייב להיות לפני תאריך הסיום.",
+    unknownEntryType: "סוג רישום לא מוכר.",
+    phoneNumber: "נא להזין את מספר הטלפון עם קידומת המדינה.",
+    telegramChatId: "נא להזין את מזהה הצ׳אט שלך בטלגרם.",
+    invalidEmail: "נא להזין כתובת אימייל תקינה.",
+    invalidUrl: "נא להזין כתובת URL תקינה.",
+    webhookNotHttps: "כתובת ה-webhook חייבת להתחיל ב-https://.",
+    webhookNotPublic: "כתובת ה-webhook חייבת להפנות לכתובת ציבורית.",
+    unknownChannel: "ערוץ התראות לא מוכר.",
+    channelNotConfigured: "הערוץ הזה לא מוגדר בשרת.",
+    noDestination: "קודם צריך לשמור לאן לשלוח את הסיכומים.",
+    testNotSent: "לא הצלחנו לשלוח את הבדיקה. בדקו את הכתובת ונסו שוב.",
+    templateLineTooLong: "כל שורה בהודעה מוגבלת ל-200 תווים.",
+    unknownLanguage: "שפה לא מוכרת.",
+    unknownTimeZone: "אזור זמן לא מוכר.",
+    exportFormat: "הפורמט חייב להיות csv או json.",
+    exportKind: "הסוג חייב להיות entries או resets.",
+    notABackup: "זה לא קובץ גיבוי של חלוקת דלק.",
+    backupNoVersion: "לקובץ הגיבוי אין גרסה.",
+    backupNotJson: "קובץ הגיבוי אינו JSON תקין.",
+    backupVersion: "הגיבוי נוצר בגרסה אחרת של חלוקת דלק ואי אפשר לשחזר אותו.",
+    backupInvalid: "קובץ הגיבוי פגום או שנערך ידנית.",
+    backupOtherGroup: "הגיבוי שייך לקבוצה אחרת.",
+    backupLocksYouOut: "אינכם נהגים פעילים בגיבוי הזה, ולכן לא תוכלו להיכנס אחרי השחזור.",
+    backupNoVehicles: "אין רכבים בגיבוי.",
+    backupStates: "בגיבוי צריך להיות מצב אחד בדיוק לכל רכב.",
+    backupUnknownVehicle: "בגיבוי יש רישומים של רכב שלא נכלל בו.",
+    backupUnknownDriver: "בגיבוי יש חובות בין נהגים שלא נכללו בו.",
+    restoreFailed: "השחזור נכשל. שום דבר לא השתנה.",
+  },
+
+  history: {
+    description: (vehicle) => `רישומי קילומטראז׳, איפוסים ותשלומים עבור ${vehicle}.`,
+    types: {
+      mileage: "קילומטראז׳",
+      resets: "איפוסים",
+      charging: "טעינות",
+      payments: "תשלומים",
+      prices: "מחירים",
+      corrections: "תיקונים",
+    },
+    empty: "אין עדיין היסטוריה.",
+    loadOlder: "טעינת סבבים קודמים",
+    currentCycle: "הסבב הנוכחי",
+    currentCycleSince: (opened) => `הסבב הנוכחי, מאז ${opened}`,
+    cycle: (opened, closed) => `סבב ${opened} – ${closed}`,
+    cycleUntil: (closed) => `סבב עד ${closed}`,
+    reset: "איפוס",
+    fillUp: (liters, station, payer) => `${liters} ליטר${station ? ` ב${station}` : ""}, שילם/ה ${payer}`,
+    charged: (amount) => `טעינות: ${amount}`,
+    total: "סה״כ",
+    atPrice: (price) => `במחיר ${price} לק״מ`,
+    charging: "טעינה",
+    home: "בבית",
+    public: "ציבורית",
+    paidBy: "שילם/ה",
+    priceChange: "שינוי מחיר",
+    pricePerKm: "מחיר לק״מ",
+    changedBy: "שונה על ידי",
+    resetUndone: "איפוס בוטל",
+    resetReverted: (at) => `האיפוס של ${at} בוטל`,
+    entryRemoved: (at, reading, drivers) => `הרישום של ${at} נמחק (${reading} ק״מ, נזקף ל${drivers})`,
+    entryDeleted: "רישום נמחק",
+    revertedTotal: "סה״כ שבוטל",
+    undoneBy: "בוטל על ידי",
+    deletedBy: "נמחק על ידי",
+    payment: "תשלום",
+    paidOf: (paid, amount) => `שולמו ${paid} מתוך ${amount}`,
+    initialReading: "קריאה ראשונה",
+    sharedTrip: "נסיעה משותפת",
+    mileageEntry: "רישום קילומטראז׳",
+    reading: "קריאה",
+    enteredBy: "הוזן על ידי",
+    creditedTo: "נזקף ל",
+    was: (reading) => `היה ${reading} ק״מ`,
+    wasCreditedTo: (driver) => `, נזקף ל${driver}`,
+    editedBy: (driver, at) => ` • נערך על ידי ${driver} ${at}`,
+    confirmDelete: "למחוק את הרישום? הרישומים שאחריו יחושבו מחדש.",
+  },
+
+  exports: {
+    title: "ייצוא",
+    thisVehicle: "הרכב הזה",
+    allVehicles: "כל הרכבים",
+    entriesCsv: "רישומים CSV",
+    entriesJson: "רישומים JSON",
+    resetsCsv: "איפוסים CSV",
+    resetsJson: "איפוסים JSON",
+    statement: "דוח חודשי",
+  },
+
+  vehicles: {
+    title: "רכב",
+    rename: "שינוי שם",
+    energy: {
+      fuel: "דלק",
+      electric: "חשמלי",
+      plugInHybrid: "היברידי נטען",
+    },
+    addPlaceholder: "הוספת רכב נוסף",
+    add: "הוספה",
+    hint:
+      "לכל רכב מד קילומטרים, מחיר וסבב איפוס משלו. ברכבים חשמליים והיברידיים נטענים אפשר לרשום טעינות, " +
+      "והן מתחשבנות באיפוס הבא.",
+  },
+
+  drivers: {
+    title: "נהגים",
+    rename: "שינוי שם",
+    you: "את/ה",
+    deactivate: "השבתה",
+    activate: "הפעלה",
+    newDriver: "נהג/ת חדש/ה",
+    accessCode: "קוד גישה",
+    add: "הוספה",
+    hint: "נהגים מושבתים שומרים על ההיסטוריה שלהם אבל לא יכולים עוד להתחבר.",
+  },
+
+  invites: {
+    title: "הזמנות",
+    inviteDriver: "הזמנת נהג/ת לקבוצה הזו",
+    groupName: "שם הקבוצה החדשה",
+    create: "יצירה",
+    copy: "העתקה",
+    hint: "קישור הזמנה עובד פעם אחת ופג אחרי 7 ימים. לקבוצה חדשה יש נהגים, רכבים והיסטוריה משלה.",
+  },
+
+  notify: {
+    title: "סיכומי איפוס",
+    loadFailed: "טעינת הגדרות ההתראות נכשלה.",
+    byHand: "שיתוף ידני",
+    channels: {
+      whatsapp: "WhatsApp",
+      telegram: "Telegram",
+      email: "אימייל",
+      webhook: "Webhook",
+    },
+    placeholders: {
+      whatsapp: "מספר טלפון, למשל ‎+972501234567",
+      telegram: "מזהה הצ׳אט מתשובת הבוט ל־/start",
+      email: "you@example.com",
+      webhook: "https://…",
+    },
+    sendTest: "שליחת בדיקה",
+    testSent: "הבדיקה נשלחה.",
+    automatic: "הסיכומים נשלחים אליך אוטומטית בכל איפוס.",
+    manual: "בלי יעד, הסיכומים משותפים ידנית דרך קישור WhatsApp.",
+  },
+
+  message: {
+    title: "הודעת איפוס",
+    loadFailed: "טעינת הגדרות ההודעה נכשלה.",
+    restoreDefaults: "שחזור ברירות המחדל",
+    lines: {
+      title: "כותרת",
+      fillUp: "תדלוק",
+      station: "תחנה",
+      charging: "טעינות",
+      totalsHeader: "לפני הנהגים",
+      driver: "כל נהג/ת",
+      total: "סה״כ",
+      odometer: "מד קילומטרים",
+      transfersHeader: "לפני ההעברות",
+      transfer: "כל העברה",
+      nothingToSettle: "אין מה להתחשבן",
+    },
+    placeholders: (list) => `ממלאי מקום: ${list}. `,
+    blankLines: "שורות ריקות, או שלממלאי המקום שלהן אין ערך באיפוס הזה, לא נכללות.",
+    preview: "תצוגה מקדימה",
+    save: "שמירת ההודעה",
+  },
+
+  pricing: {
+    modes: {
+      perKm: "מחיר לק״מ",
+      consumption: "מחיר דלק × צריכה",
+    },
+    pricePerKm: "מחיר לק״מ (₪)",
+    pricePerKmPlaceholder: "למשל 0.5",
+    fuelPrice: "מחיר דלק (₪ לליטר)",
+    fuelPricePlaceholder: "למשל 7.5",
+    consumption: "צריכה (ליטר ל־100 ק״מ)",
+    consumptionPlaceholder: "למשל 6.5",
+    derived: (price) => `כלומר ${price} לק״מ.`,
+    enterBoth: "מלאו את שניהם כדי לקבל מחיר לק״מ.",
+    importTitle: "משיכת מחיר המשאבה הרשמי עכשיו",
+    import: "עדכון מחיר הדלק",
+    measured: (litersPer100Km, liters, km) =>
+      `נמדד מהתדלוקים: ${litersPer100Km} ליטר ל־100 ק״מ (${liters} ליטר ב־${km} ק״מ)`,
+    use: "שימוש",
+  },
+
+  charge: {
+    title: "טעינה",
+    description: "עלויות הטעינה מצטברות במהלך הסבב ומתחלקות לפי ק״מ באיפוס הבא.",
+    energy: "אנרגיה (קוט״ש)",
+    energyPlaceholder: "למשל 32",
+    pricePerKwh: "מחיר לקוט״ש (₪)",
+    pricePerKwhPlaceholder: "למשל 0.64",
+    where: "איפה",
+    locations: {
+      home: "בבית",
+      public: "עמדה ציבורית",
+    },
+    paidBy: "מי שילם/ה",
+    cost: (cost) => `עלות: ${cost}`,
+    submit: "רישום טעינה",
+  },
+
+  ledger: {
+    title: "פנקס חובות",
+    description: "מה שכל איפוס השאיר לתשלום. רשמו תשלומים כשהם קורים, במלואם או בחלקם.",
+    empty: "אין עדיין חובות.",
+    status: {
+      outstanding: "פתוח",
+      partial: "שולם חלקית",
+      settled: "סגור",
+    },
+    owed: "חוב",
+    paid: "שולם",
+    markPaid: "סימון כשולם",
+  },
+
+  login: {
+    title: "כניסה לחלוקת דלק",
+    description: "הזינו את קוד הגישה שלכם. רק נהגים רשומים יכולים להיכנס.",
+    code: "קוד גישה",
+    codePlaceholder: "הזינו את הקוד",
+    askOwner: "בקשו את הקוד מבעלי הרכב, או ",
+    joinWithInvite: "הצטרפו עם הזמנה",
+    submit: "כניסה",
+    failed: "הכניסה נכשלה. נסו שוב.",
+  },
+
+  join: {
+    title: "הצטרפות לחלוקת דלק",
+    description: "בחרו שם וקוד גישה אישי לכניסה.",
+    inviteCode: "קוד הזמנה",
+    name: "השם שלך",
+    code: "קוד גישה",
+    codePlaceholder: "לפחות 4 ספרות",
+    submit: "הצטרפות",
+    failed: "ההצטרפות נכשלה. נסו שוב.",
+  },
+
+  stats: {
+    title: "סטטיסטיקה",
+    loadFailed: "טעינת הסטטיסטיקה נכשלה.",
+    allVehicles: "כל הרכבים",
+    daysBetweenFillUps: "ימים בין תדלוקים",
+    costPerKm: "עלות ממוצעת לק״מ",
+    kmPerDriver: "ק״מ לפי נהג/ת",
+    periods: {
+      week: "שבועי",
+      month: "חודשי",
+    },
+    kmShare: (km, percent) => `${km} ק״מ • ${percent}%`,
+    costPerCycle: "עלות לכל סבב",
+    sharePerCycle: "חלק הק״מ בכל סבב",
+    empty: "אין נתונים בטווח הזה.",
+    cycleCost: "עלות הסבב",
+  },
+
+  statement: {
+    title: "דוח חודשי",
+    loadFailed: "טעינת הדוח נכשלה.",
+    month: "חודש",
+    downloadPdf: "הורדת PDF",
+    pdfFailed: "לא הצלחנו ליצור את ה-PDF. נסו שוב.",
+    print: "הדפסה",
+    empty: "אף אחד לא נסע או שילם על דלק החודש.",
+    documentTitle: "דוח עלויות נסיעה",
+    issued: (date) => `הופק ב-${date}`,
+    kmDriven: "ק״מ שנסעו",
+    noKm: "אין ק״מ החודש.",
+    columns: {
+      date: "תאריך",
+      vehicle: "רכב",
+      reading: "קריאה",
+      km: "ק״מ",
+      pricePerKm: "מחיר לק״מ",
+      amount: "סכום",
+    },
+    shared: (vehicle) => `${vehicle} (משותפת)`,
+    paidHeading: "תדלוקים וטעינות ששולמו",
+    nonePaid: "אין החודש.",
+    fuel: (liters, station) => `דלק, ${liters} ליטר${station ? ` ב${station}` : ""}`,
+    charging: (kWh, location) => `טעינה, ${kWh} קוט״ש (${location})`,
+    settledHeading: "התחשבנות באיפוסים",
+    totalKm: "סה״כ ק״מ",
+    kmCost: "עלות הק״מ לפי המחירים שבתוקף",
+    paid: "שולם על דלק וטעינה",
+    owed: "סה״כ לתשלום",
+    refund: "סה״כ להחזר",
+    signature: (name) => `חתימה (${name})`,
+    date: "תאריך",
+    summary: "סיכום",
+    summaryColumns: {
+      driver: "נהג/ת",
+      km: "ק״מ",
+      kmCost: "עלות הק״מ",
+      paid: "שולם",
+      owed: "חוב",
+    },
+  },
+
+  admin: {
+    title: "גיבוי ושחזור",
+    description: "שמרו עותק של נתוני הקבוצה מחוץ למסד הנתונים, או החזירו עותק קיים.",
+    backup: "גיבוי",
+    backupHint:
+      "נהגים, רכבים, הגדרות, כל הרישומים ופנקס החובות, בקובץ JSON אחד. קודי הגישה לא נכללים: " +
+      "נהגים שומרים את הקודים שיש להם, ונהגים ששחזור מחזיר צריכים קוד חדש.",
+    download: "הורדת גיבוי",
+    restore: "שחזור",
+    restoreHint: "מחליף הכול בתוכן הגיבוי. הגיבוי נבדק קודם, ואם משהו לא תקין, שום דבר לא משתנה.",
+    restoreButton: "שחזור מגיבוי",
+    confirmRestore: (file) => `להחליף את כל הרכבים, ההיסטוריה והיתרות ב-${file}? אי אפשר לבטל את זה.`,
+    restored: (vehicles, entries) => `שוחזרו ${vehicles} רכבים ו-${entries} רישומים.`,
+  },
+}
+
+export const DICTIONARIES: Record<Locale, Dictionary> = { he, en }
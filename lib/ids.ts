@@ -0,0 +1,4 @@
+// Time-ordered ids for entries, obligations and other rows created by the app
+export function nowId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
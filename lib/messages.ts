@@ -0,0 +1,214 @@
+import { roundKm } from "@/lib/drivers"
+import { formatCurrency } from "@/lib/format"
+import { LOCALE_TAGS, type Locale } from "@/lib/i18n"
+import { roundAgorot } from "@/lib/settlement"
+
+// Independent of each driver's UI language: the message goes to the whole group
+export type MessageLocale = Locale
+
+// One line each. {placeholders} are filled in from the reset; see PLACEHOLDERS for which ones
+// each line knows. A line is left out when it's blank or uses a placeholder with no value,
+// like {station} for a receipt without one.
+export type MessageTemplate = {
+  title: string
+  fillUp: string
+  station: string
+  charging: string
+  totalsHeader: string
+  // Repeated for every driver with km this cycle
+  driver: string
+  total: string
+  odometer: string
+  transfersHeader: string
+  // Repeated for every transfer
+  transfer: string
+  nothingToSettle: string
+}
+
+export type MessageLine = keyof MessageTemplate
+
+export type MessageSettings = {
+  locale: MessageLocale
+  // IANA zone for {date}; the server's zone when missing
+  timeZone?: string
+  template: MessageTemplate
+}
+
+// Everything a reset message can say, with names already resolved
+export type ResetSummary = {
+  vehicle: string
+  timestamp: number
+  fillUp: { liters: number; amountPaid: number; station?: string; payer: string } | null
+  charging: { sessions: number; kWh: number; amount: number } | null
+  drivers: { name: string; km: number; share: number }[]
+  totalKm: number
+  total: number
+  odometer: number | null
+  transfers: { from: string; to: string; amount: number }[]
+}
+
+export const DEFAULT_TEMPLATES: Record<MessageLocale, MessageTemplate> = {
+  en: {
+    title: "Fuel split reset: {vehicle} ({date})",
+    fillUp: "Fill-up: {liters} L for {paid}, paid by {payer}",
+    station: "Station: {station}",
+    charging: "Charging: {sessions} sessions, {kWh} kWh for {charged}",
+    totalsHeader: "Totals since last reset:",
+    driver: "- {driver}: {km} km => {share}",
+    total: "Total: {totalKm} km => {total}",
+    odometer: "Odometer: {odometer} km",
+    transfersHeader: "To settle:",
+    transfer: "- {from} owes {to} {amount}",
+    nothingToSettle: "Nothing to settle.",
+  },
+  he: {
+    title: "איפוס חלוקת דלק: {vehicle} ({date})",
+    fillUp: "תדלוק: {liters} ליטר ב-{paid}, שילם/ה {payer}",
+    station: "תחנה: {station}",
+    charging: "טעינות: {sessions}, {kWh} קוט״ש ב-{charged}",
+    totalsHeader: "סיכום מאז האיפוס הקודם:",
+    driver: "- {driver}: {km} ק״מ => {share}",
+    total: "סה״כ: {totalKm} ק״מ => {total}",
+    odometer: "מד קילומטרים: {odometer} ק״מ",
+    transfersHeader: "להתחשבנות:",
+    transfer: "- {from} חייב/ת ל{to} {amount}",
+    nothingToSettle: "אין מה להתחשבן.",
+  },
+}
+
+const SHARED_PLACEHOLDERS = [
+  "vehicle",
+  "date",
+  "liters",
+  "paid",
+  "station",
+  "payer",
+  "sessions",
+  "kWh",
+  "charged",
+  "totalKm",
+  "total",
+  "odometer",
+]
+
+// Placeholders each line can use, for the settings help text
+export const PLACEHOLDERS: Record<MessageLine, string[]> = {
+  title: SHARED_PLACEHOLDERS,
+  fillUp: SHARED_PLACEHOLDERS,
+  station: SHARED_PLACEHOLDERS,
+  charging: SHARED_PLACEHOLDERS,
+  totalsHeader: SHARED_PLACEHOLDERS,
+  driver: ["driver", "km", "share", ...SHARED_PLACEHOLDERS],
+  total: SHARED_PLACEHOLDERS,
+  odometer: SHARED_PLACEHOLDERS,
+  transfersHeader: SHARED_PLACEHOLDERS,
+  transfer: ["from", "to", "amount", ...SHARED_PLACEHOLDERS],
+  nothingToSettle: SHARED_PLACEHOLDERS,
+}
+
+// What the group saved, completed with the locale's defaults; English until someone saves
+export function messageSettingsOf(stored: Partial<MessageSettings> | null): MessageSettings {
+  const locale = stored?.locale ?? "en"
+  return { locale, timeZone: stored?.timeZone, template: { ...DEFAULT_TEMPLATES[locale], ...stored?.template } }
+}
+
+function formatDate(timestamp: number, settings: MessageSettings): string {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: "short", timeStyle: "short" }
+  try {
+    return new Intl.DateTimeFormat(LOCALE_TAGS[settings.locale], { ...options, timeZone: settings.timeZone }).format(
+      timestamp,
+    )
+  } catch {
+    // A zone the runtime doesn't know
+    return new Intl.DateTimeFormat(LOCALE_TAGS[settings.locale], options).format(timestamp)
+  }
+}
+
+// Unknown placeholders stay as typed, so mistakes show up in the preview
+function fill(line: string, values: Record<string, string | undefined>): string | null {
+  let missing = false
+  const text = line.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in values)) return match
+    const value = values[key]
+    if (value === undefined) missing = true
+    return value ?? ""
+  })
+  return missing || !text.trim() ? null : text
+}
+
+export function renderResetMessage(summary: ResetSummary, settings: MessageSettings): string {
+  const tag = LOCALE_TAGS[settings.locale]
+  const number = (n: number) => new Intl.NumberFormat(tag, { maximumFractionDigits: 2 }).format(n)
+  const money = (n: number) => formatCurrency(n, tag)
+  const { template } = settings
+  const { fillUp, charging } = summary
+
+  const values: Record<string, string | undefined> = {
+    vehicle: summary.vehicle,
+    date: formatDate(summary.timestamp, settings),
+    liters: fillUp ? number(fillUp.liters) : undefined,
+    paid: fillUp ? money(fillUp.amountPaid) : undefined,
+    station: fillUp?.station || undefined,
+    payer: fillUp?.payer,
+    sessions: charging ? number(charging.sessions) : undefined,
+    kWh: charging ? number(roundKm(charging.kWh)) : undefined,
+    charged: charging ? money(charging.amount) : undefined,
+    totalKm: number(roundKm(summary.totalKm)),
+    total: money(summary.total),
+    odometer: summary.odometer != null ? number(summary.odometer) : undefined,
+  }
+  // Lines about the fill-up and charging only appear when there was one
+  const optional = (line: string, present: boolean) => (present ? fill(line, values) : null)
+
+  return [
+    fill(template.title, values),
+    optional(template.fillUp, fillUp !== null),
+    optional(template.station, fillUp !== null),
+    optional(template.charging, charging !== null),
+    fill(template.totalsHeader, values),
+    ...summary.drivers.map((d) =>
+      fill(template.driver, { ...values, driver: d.name, km: number(roundKm(d.km)), share: money(d.share) }),
+    ),
+    fill(template.total, values),
+    fill(template.odometer, values),
+    ...(summary.transfers.length > 0
+      ? [
+          fill(template.transfersHeader, values),
+          ...summary.transfers.map((t) =>
+            fill(template.transfer, { ...values, from: t.from, to: t.to, amount: money(t.amount) }),
+          ),
+        ]
+      : [fill(template.nothingToSettle, values)]),
+  ]
+    .filter((line): line is string => line !== null)
+    .join("\n")
+}
+
+// Made-up numbers with the group's own names, so the preview shows every line
+export function sampleSummary(vehicle: string, names: string[], timestamp: number): ResetSummary {
+  const kms = [320, 180, 95]
+  const drivers = (names.length > 0 ? names : ["Driver"]).slice(0, kms.length).map((name, i) => ({
+    name,
+    km: kms[i],
+    share: 0,
+  }))
+  const fillUp = { liters: 42.5, amountPaid: 310.25, station: "Paz", payer: drivers[0].name }
+  const charging = { sessions: 2, kWh: 38.4, amount: 41.6 }
+  const total = roundAgorot(fillUp.amountPaid + charging.amount)
+  const totalKm = drivers.reduce((sum, d) => sum + d.km, 0)
+  for (const d of drivers) {
+    d.share = roundAgorot((total * d.km) / totalKm)
+  }
+
+  return {
+    vehicle,
+    timestamp,
+    fillUp,
+    charging,
+    drivers,
+    totalKm,
+    total,
+    odometer: 48210,
+    transfers: drivers.slice(1).map((d) => ({ from: d.name, to: fillUp.payer, amount: d.share })),
+  }
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+import { availableChannels, isPublicHost, mockNotifier, mockOutbox, notifiersFromEnv, notifyDrivers } from "./notifiers"
+
+const NOTIFICATION = { subject: "Fuel Split reset", text: "Noa owes Dana ₪50" }
+
+describe("notifyDrivers", () => {
+  beforeEach(() => {
+    mockOutbox.length = 0
+    mock.method(console, "log", () => {})
+    mock.method(console, "error", () => {})
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+  })
+
+  it("sends each driver's summary on their own channel", async () => {
+    const notifiers = { telegram: mockNotifier("telegram"), email: mockNotifier("email") }
+    const deliveries = await notifyDrivers(
+      {
+        dana: { channel: "telegram", to: "12345" },
+        noa: { channel: "email", to: "noa@example.com" },
+      },
+      NOTIFICATION,
+      notifiers,
+    )
+
+    assert.deepEqual(deliveries, [
+      { driver: "dana", channel: "telegram" },
+      { driver: "noa", channel: "email" },
+    ])
+    assert.deepEqual(mockOutbox, [
+      { channel: "telegram", to: "12345", ...NOTIFICATION },
+      { channel: "email", to: "noa@example.com", ...NOTIFICATION },
+    ])
+  })
+
+  it("reports a channel the server can't send on without sending", async () => {
+    const deliveries = await notifyDrivers({ dana: { channel: "whatsapp", to: "+972500000000" } }, NOTIFICATION, {})
+    const error = "whatsapp isn't set up on the server."
+    assert.deepEqual(deliveries, [{ driver: "dana", channel: "whatsapp", error }])
+    assert.equal(mockOutbox.length, 0)
+  })
+
+  it("keeps sending when one channel fails", async () => {
+    const failing = { name: "Broken", send: async () => Promise.reject(new Error("connection refused")) }
+    const deliveries = await notifyDrivers(
+      {
+        dana: { channel: "webhook", to: "https://example.com/hook" },
+        noa: { channel: "telegram", to: "67890" },
+      },
+      NOTIFICATION,
+      { webhook: failing, telegram: mockNotifier("telegram") },
+    )
+
+    assert.deepEqual(deliveries, [
+      { driver: "dana", channel: "webhook", error: "connection refused" },
+      { driver: "noa", channel: "telegram" },
+    ])
+    assert.deepEqual(mockOutbox.map((m) => m.to), ["67890"])
+  })
+})
+
+describe("notifiersFromEnv", () => {
+  const saved = process.env.NOTIFY_TRANSPORT
+
+  afterEach(() => {
+    if (saved === undefined) delete process.env.NOTIFY_TRANSPORT
+    else process.env.NOTIFY_TRANSPORT = saved
+  })
+
+  it("routes every channel to the mock with NOTIFY_TRANSPORT=mock", () => {
+    process.env.NOTIFY_TRANSPORT = "mock"
+    const notifiers = notifiersFromEnv()
+    assert.deepEqual(availableChannels(notifiers), ["whatsapp", "telegram", "email", "webhook"])
+    assert.equal(notifiers.email?.name, "Mock email")
+  })
+})
+
+describe("isPublicHost", () => {
+  it("refuses private and loopback addresses", async () => {
+    for (const host of ["127.0.0.1", "10.1.2.3", "192.168.0.10", "169.254.169.254", "[::1]", "[::ffff:7f00:1]"]) {
+      assert.equal(await isPublicHost(host), false, host)
+    }
+  })
+
+  it("accepts public addresses", async () => {
+    assert.equal(await isPublicHost("93.184.215.14"), true)
+    assert.equal(await isPublicHost("[2606:4700::1111]"), true)
+  })
+})
@@ -0,0 +1,312 @@
+import { lookup } from "dns/promises"
+import { connect as connectTcp, isIP, type Socket } from "net"
+import { connect as connectTls } from "tls"
+import type { DriverId, NotifyChannel, NotifyDestination } from "@/lib/database"
+
+export type Notification = {
+  subject: string
+  text: string
+}
+
+export type Notifier = {
+  name: string
+  send: (to: string, notification: Notification) => Promise<void>
+}
+
+// What a driver sees in settings: the channels the server can send on, and their own choice
+export type NotificationSettings = {
+  channels: NotifyChannel[]
+  destination: NotifyDestination | null
+}
+
+export type Delivery = {
+  driver: DriverId
+  channel: NotifyChannel
+  // Set when sending failed
+  error?: string
+}
+
+export type SmtpConfig = {
+  host: string
+  port: number
+  // Implicit TLS (port 465); otherwise the connection is upgraded with STARTTLS when offered
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+type SmtpReply = { code: number; text: string }
+
+// Same limit as an SMTP exchange, so a slow service can't hold on to the server
+const SEND_TIMEOUT_MS = 15_000
+
+async function postJson(service: string, url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    cache: "no-store",
+    redirect: "error",
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`${service} failed with ${response.status}.`)
+  }
+}
+
+// Free-form text only reaches numbers that messaged the business number in the last 24 hours
+export function whatsAppCloudNotifier(token: string, phoneNumberId: string): Notifier {
+  return {
+    name: "WhatsApp Cloud API",
+    send: (to, notification) =>
+      postJson(
+        "WhatsApp Cloud API",
+        `https://graph.facebook.com/v21.0/${phoneNumberId}/messages`,
+        { messaging_product: "whatsapp", to: to.replace(/\D/g, ""), type: "text", text: { body: notification.text } },
+        { Authorization: `Bearer ${token}` },
+      ),
+  }
+}
+
+// The bot can only message chats that started a conversation with it
+export function telegramNotifier(botToken: string): Notifier {
+  return {
+    name: "Telegram bot",
+    send: (to, notification) =>
+      postJson("Telegram bot", `https://api.telegram.org/bot${botToken}/sendMessage`, {
+        chat_id: to,
+        text: notification.text,
+      }),
+  }
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  )
+}
+
+// Loopback, private, link-local, multicast and the other ranges that aren't on the internet
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+  const ipv6 = address.toLowerCase()
+  const mapped = ipv6.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([\da-f]{1,4}):([\da-f]{1,4}))$/)
+  if (mapped) {
+    const high = parseInt(mapped[2] ?? "0", 16)
+    const low = parseInt(mapped[3] ?? "0", 16)
+    return isPrivateIPv4(mapped[1] ?? [high >> 8, high & 255, low >> 8, low & 255].join("."))
+  }
+  return ipv6 === "::" || ipv6 === "::1" || /^(f[cd][\da-f]{2}|fe[89ab][\da-f]|ff[\da-f]{2}):/.test(ipv6)
+}
+
+// Webhook URLs come from drivers, so every address the host resolves to has to be public;
+// otherwise anyone in a group could make the server post into its own network
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true }).catch(() => [])
+  return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address))
+}
+
+// Posts { subject, text } as JSON to the driver's own URL
+export function webhookNotifier(): Notifier {
+  return {
+    name: "Webhook",
+    send: async (to, notification) => {
+      const { host, hostname } = new URL(to)
+      if (!(await isPublicHost(hostname))) {
+        throw new Error(`Webhook ${host} isn't a public address.`)
+      }
+      await postJson(`Webhook ${host}`, to, notification)
+    },
+  }
+}
+
+// Resolves with the next complete, possibly multi-line, reply
+function readReply(socket: Socket): Promise<SmtpReply> {
+  return new Promise((resolve, reject) => {
+    let buffer = ""
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf8")
+      const lines = buffer.split("\r\n")
+      const last = lines[lines.length - 2] ?? ""
+      if (buffer.endsWith("\r\n") && /^\d{3} /.test(last)) {
+        cleanup()
+        resolve({ code: Number(last.slice(0, 3)), text: buffer.trim() })
+      }
+    }
+    const onError = (error: Error) => {
+      cleanup()
+      reject(error)
+    }
+    const onClose = () => {
+      cleanup()
+      reject(new Error("SMTP server closed the connection."))
+    }
+    function cleanup() {
+      socket.off("data", onData)
+      socket.off("error", onError)
+      socket.off("close", onClose)
+    }
+    socket.on("data", onData)
+    socket.on("error", onError)
+    socket.on("close", onClose)
+  })
+}
+
+// Sends one command (or just waits, for the greeting) and checks the reply's class, e.g. 2xx
+async function command(socket: Socket, line: string | null, expected: number): Promise<SmtpReply> {
+  const reply = readReply(socket)
+  if (line !== null) socket.write(`${line}\r\n`)
+  const result = await reply
+  if (Math.floor(result.code / 100) !== Math.floor(expected / 100)) {
+    throw new Error(`SMTP server replied: ${result.text}`)
+  }
+  return result
+}
+
+function withTimeout<T extends Socket>(socket: T): T {
+  socket.setTimeout(15_000, () => socket.destroy(new Error("SMTP server timed out.")))
+  return socket
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`
+}
+
+// Plain text in base64, which also keeps lines from starting with the "." that ends DATA
+function mailMessage(from: string, to: string, notification: Notification): string {
+  const body = Buffer.from(notification.text).toString("base64").match(/.{1,76}/g) ?? []
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(notification.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...body,
+  ].join("\r\n")
+}
+
+// A minimal SMTP client: one plain-text message per connection, AUTH PLAIN when a user is set
+export function smtpNotifier(config: SmtpConfig): Notifier {
+  const sender = config.from.match(/<([^>]+)>/)?.[1] ?? config.from
+
+  return {
+    name: "Email",
+    send: async (to, notification) => {
+      let socket: Socket = withTimeout(
+        config.secure
+          ? connectTls({ host: config.host, port: config.port, servername: config.host })
+          : connectTcp({ host: config.host, port: config.port }),
+      )
+      try {
+        await command(socket, null, 220)
+        const hello = await command(socket, `EHLO ${config.host}`, 250)
+        if (!config.secure && /STARTTLS/i.test(hello.text)) {
+          await command(socket, "STARTTLS", 220)
+          socket = withTimeout(connectTls({ socket, servername: config.host }))
+          await command(socket, `EHLO ${config.host}`, 250)
+        }
+        if (config.user) {
+          const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`).toString("base64")
+          await command(socket, `AUTH PLAIN ${credentials}`, 235)
+        }
+        await command(socket, `MAIL FROM:<${sender}>`, 250)
+        await command(socket, `RCPT TO:<${to}>`, 250)
+        await command(socket, "DATA", 354)
+        await command(socket, `${mailMessage(config.from, to, notification)}\r\n.`, 250)
+        await command(socket, "QUIT", 221).catch(() => {})
+      } finally {
+        socket.destroy()
+      }
+    },
+  }
+}
+
+// Everything the mock transport was asked to send since the server started, oldest first
+export const mockOutbox: (Notification & { channel: NotifyChannel; to: string })[] = []
+
+// Records and logs instead of sending, for local development and tests
+export function mockNotifier(channel: NotifyChannel): Notifier {
+  return {
+    name: `Mock ${channel}`,
+    send: async (to, notification) => {
+      mockOutbox.push({ channel, to, ...notification })
+      console.log(`[mock ${channel}] to ${to}: ${notification.subject}\n${notification.text}`)
+    },
+  }
+}
+
+// Channels are turned on by their credentials, webhooks by NOTIFY_WEBHOOKS=on; NOTIFY_TRANSPORT=mock
+// routes all four to the mock
+export function notifiersFromEnv(): Partial<Record<NotifyChannel, Notifier>> {
+  const env = process.env
+  if (env.NOTIFY_TRANSPORT === "mock") {
+    return {
+      whatsapp: mockNotifier("whatsapp"),
+      telegram: mockNotifier("telegram"),
+      email: mockNotifier("email"),
+      webhook: mockNotifier("webhook"),
+    }
+  }
+
+  const port = Number(env.SMTP_PORT || 587)
+  return {
+    whatsapp:
+      env.WHATSAPP_TOKEN && env.WHATSAPP_PHONE_NUMBER_ID
+        ? whatsAppCloudNotifier(env.WHATSAPP_TOKEN, env.WHATSAPP_PHONE_NUMBER_ID)
+        : undefined,
+    telegram: env.TELEGRAM_BOT_TOKEN ? telegramNotifier(env.TELEGRAM_BOT_TOKEN) : undefined,
+    email:
+      env.SMTP_HOST && env.SMTP_FROM
+        ? smtpNotifier({
+            host: env.SMTP_HOST,
+            port,
+            secure: port === 465,
+            user: env.SMTP_USER,
+            pass: env.SMTP_PASS,
+            from: env.SMTP_FROM,
+          })
+        : undefined,
+    webhook: env.NOTIFY_WEBHOOKS === "on" ? webhookNotifier() : undefined,
+  }
+}
+
+export function availableChannels(notifiers = notifiersFromEnv()): NotifyChannel[] {
+  return (Object.keys(notifiers) as NotifyChannel[]).filter((channel) => notifiers[channel])
+}
+
+// Sends to every destination at once; one failing channel doesn't keep the others from being sent
+export async function notifyDrivers(
+  destinations: Record<DriverId, NotifyDestination>,
+  notification: Notification,
+  notifiers = notifiersFromEnv(),
+): Promise<Delivery[]> {
+  return Promise.all(
+    Object.entries(destinations).map(async ([driver, { channel, to }]): Promise<Delivery> => {
+      const notifier = notifiers[channel]
+      if (!notifier) {
+        return { driver, channel, error: `${channel} isn't set up on the server.` }
+      }
+      try {
+        await notifier.send(to, notification)
+        return { driver, channel }
+      } catch (error) {
+        console.error(`Error sending ${notifier.name} notification:`, error)
+        return { driver, channel, error: error instanceof Error ? error.message : String(error) }
+      }
+    }),
+  )
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { Entry } from "./database"
+import { consumptionPricePerKm, costBy, priceAt, priceSegments } from "./pricing"
+
+function price(timestamp: number, previous: number, pricePerKm: number): Entry {
+  return { id: `p${timestamp}`, type: "price", timestamp, price: { previous, pricePerKm } }
+}
+
+function reading(timestamp: number, value: number, driver: string): Entry {
+  return { id: `e${timestamp}`, type: "entry", timestamp, reading: value, attributedTo: driver }
+}
+
+describe("priceSegments", () => {
+  it("groups the cycle's km by the price in effect", () => {
+    const history = [
+      { id: "r", type: "reset", timestamp: 1 } as Entry,
+      reading(2, 1100, "dana"),
+      price(3, 0.5, 0.6),
+      reading(4, 1150, "noa"),
+      reading(5, 1170, "dana"),
+    ]
+    assert.deepEqual(priceSegments(history, 0.6, 1000), [
+      { pricePerKm: 0.5, kmBy: { dana: 100 } },
+      { pricePerKm: 0.6, kmBy: { noa: 50, dana: 20 } },
+    ])
+  })
+
+  it("prices a log without price entries at the current price", () => {
+    assert.deepEqual(priceSegments([reading(1, 1040, "dana")], 0.45, 1000), [{ pricePerKm: 0.45, kmBy: { dana: 40 } }])
+  })
+
+  it("splits shared trips and skips the initial reading", () => {
+    const history: Entry[] = [
+      { id: "i", type: "init", timestamp: 1, reading: 500 },
+      { id: "s", type: "shared", timestamp: 2, reading: 510, split: { dana: 50, noa: 50 } },
+    ]
+    assert.deepEqual(priceSegments(history, 0.5, null), [{ pricePerKm: 0.5, kmBy: { dana: 5, noa: 5 } }])
+  })
+
+  it("costs each segment at its own price", () => {
+    const segments = priceSegments([reading(1, 1100, "dana"), price(2, 0.5, 0.7), reading(3, 1200, "dana")], 0.7, 1000)
+    assert.deepEqual(costBy(segments), { dana: 120 })
+  })
+})
+
+describe("priceAt", () => {
+  const changes = [price(10, 0.5, 0.6), price(20, 0.6, 0.55)]
+
+  it("picks the change in effect at the time", () => {
+    assert.equal(priceAt(changes, 0.55, 15), 0.6)
+    assert.equal(priceAt(changes, 0.55, 25), 0.55)
+  })
+
+  it("uses the first change's previous price before any change", () => {
+    assert.equal(priceAt(changes, 0.55, 5), 0.5)
+    assert.equal(priceAt([], 0.55, 5), 0.55)
+  })
+})
+
+describe("consumptionPricePerKm", () => {
+  it("multiplies the pump price by consumption, to 0.0001 per km", () => {
+    assert.equal(consumptionPricePerKm(7.23, 6.5), 0.47)
+    assert.equal(consumptionPricePerKm(7.4, 5.3), 0.3922)
+  })
+})
@@ -0,0 +1,92 @@
+import type { DriverId, Entry, MeasuredConsumption, PriceSegment, Pricing } from "@/lib/database"
+import { creditKm, splitKm, totalKmOf } from "@/lib/drivers"
+
+// Pump price × L/100km, to 0.0001 per km
+export function consumptionPricePerKm(fuelPricePerLiter: number, litersPer100Km: number): number {
+  return Math.round(fuelPricePerLiter * litersPer100Km * 100) / 10000
+}
+
+// The price per km a pricing setup results in; typed-in prices are kept as they are
+export function pricePerKmOf(pricing: Pricing, typedPricePerKm: number): number {
+  return pricing.mode === "consumption"
+    ? consumptionPricePerKm(pricing.fuelPricePerLiter, pricing.litersPer100Km)
+    : typedPricePerKm
+}
+
+// Real consumption from the fill-ups so far, given their liters and the km of the cycles they
+// closed. Each fill-up is assumed to top the tank up to full, so its liters are what those km
+// actually burned.
+export function measuredConsumption(liters: number, km: number): MeasuredConsumption | null {
+  if (km === 0) return null
+  return { litersPer100Km: Math.round((liters / km) * 1000) / 10, liters, km }
+}
+
+// Logs from before price changes were recorded have no "price" entries; their km are
+// priced at the current price.
+function initialPrice(ordered: Entry[], currentPrice: number): number {
+  const first = ordered.find((e) => e.type === "price" && e.price)
+  return first?.price ? first.price.previous : currentPrice
+}
+
+// The price per km in effect at a given time, from one vehicle's "price" entries
+export function priceAt(priceChanges: Entry[], currentPrice: number, at: number): number {
+  const ordered = priceChanges.filter((e) => e.type === "price" && e.price).sort((a, b) => a.timestamp - b.timestamp)
+  const last = ordered.filter((e) => e.timestamp <= at).pop()
+  return last ? last.price!.pricePerKm : initialPrice(ordered.filter((e) => e.timestamp > at), currentPrice)
+}
+
+// The current cycle's km, grouped by the price in effect when each reading was entered.
+// openingOdometer is the reading the cycle started from (AppState.startingOdometer): the
+// history starts at the reset, so the cycle's first reading is measured from it.
+export function priceSegments(history: Entry[], currentPrice: number, openingOdometer: number | null): PriceSegment[] {
+  const ordered = history.slice().sort((a, b) => a.timestamp - b.timestamp)
+  let price = initialPrice(ordered, currentPrice)
+  let lastOdometer = openingOdometer
+  let segments: PriceSegment[] = []
+
+  for (const e of ordered) {
+    if (e.type === "reset") {
+      segments = []
+    } else if (e.type === "price" && e.price) {
+      price = e.price.pricePerKm
+    } else if (e.reading != null) {
+      if (e.type !== "init" && lastOdometer !== null) {
+        const delta = e.reading - lastOdometer
+        const km =
+          e.type === "shared" && e.split
+            ? splitKm(delta, e.split)
+            : e.attributedTo
+              ? { [e.attributedTo]: delta }
+              : {}
+
+        let segment = segments.find((s) => s.pricePerKm === price)
+        if (!segment) {
+          segment = { pricePerKm: price, kmBy: {} }
+          segments.push(segment)
+        }
+        segment.kmBy = creditKm(segment.kmBy, km)
+      }
+      lastOdometer = e.reading
+    }
+  }
+
+  return segments
+}
+
+export function segmentKmOf(segments: PriceSegment[]): number {
+  return segments.reduce((sum, segment) => sum + totalKmOf(segment.kmBy), 0)
+}
+
+export function costBy(segments: PriceSegment[]): Record<DriverId, number> {
+  const costs: Record<DriverId, number> = {}
+  for (const segment of segments) {
+    for (const [id, km] of Object.entries(segment.kmBy)) {
+      costs[id] = (costs[id] ?? 0) + km * segment.pricePerKm
+    }
+  }
+  return costs
+}
+
+export function totalCostOf(segments: PriceSegment[]): number {
+  return Object.values(costBy(segments)).reduce((sum, cost) => sum + cost, 0)
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { Entry } from "./database"
+import { UserError } from "./errors"
+import { diffAppState, recomputeDeltas, replayEntries, type StateSettings } from "./replay"
+
+const SETTINGS: StateSettings = {
+  groupId: "group",
+  vehicleId: "car",
+  vehicles: [],
+  version: 7,
+  pricePerKm: 0.5,
+  pricing: { mode: "perKm" },
+  startingOdometer: 0,
+  drivers: [],
+  ledger: [],
+  consumption: null,
+}
+
+const CYCLE: Entry[] = [
+  { id: "1", type: "init", timestamp: 1, reading: 1000, enteredBy: "dana" },
+  { id: "2", type: "entry", timestamp: 2, reading: 1100, deltaKm: 100, attributedTo: "dana", enteredBy: "noa" },
+  { id: "3", type: "shared", timestamp: 3, reading: 1130, split: { dana: 50, noa: 50 }, enteredBy: "dana" },
+  { id: "4", type: "charge", timestamp: 4, charge: { kWh: 20, pricePerKwh: 0.6, location: "home", paidBy: "noa" } },
+]
+
+describe("replayEntries", () => {
+  it("credits each reading's km to its driver", () => {
+    const state = replayEntries(CYCLE, SETTINGS)
+    assert.equal(state.startingOdometer, 1000)
+    assert.equal(state.lastOdometer, 1130)
+    assert.deepEqual(state.kmBy, { dana: 115, noa: 15 })
+    assert.equal(state.lastEnteredBy, "dana")
+    assert.deepEqual(state.history.map((e) => e.id), ["1", "2", "3", "4"])
+  })
+
+  it("replays in time order and trusts readings over stored deltas", () => {
+    const shuffled = [CYCLE[2], { ...CYCLE[1], deltaKm: 999 }, CYCLE[0]]
+    assert.deepEqual(replayEntries(shuffled, SETTINGS).kmBy, { dana: 115, noa: 15 })
+  })
+
+  it("starts a new cycle at a reset", () => {
+    const state = replayEntries(
+      [
+        ...CYCLE,
+        { id: "5", type: "reset", timestamp: 5 },
+        { id: "6", type: "entry", timestamp: 6, reading: 1180, attributedTo: "noa", enteredBy: "noa" },
+      ],
+      SETTINGS,
+    )
+    assert.equal(state.startingOdometer, 1130)
+    assert.deepEqual(state.kmBy, { noa: 50 })
+    assert.equal(state.lastEnteredBy, "noa")
+  })
+
+  it("keeps the settings that only live on the state row", () => {
+    const state = replayEntries([], SETTINGS)
+    assert.equal(state.version, 7)
+    assert.equal(state.pricePerKm, 0.5)
+    assert.equal(state.startingOdometer, 0)
+    assert.equal(state.lastOdometer, null)
+  })
+})
+
+describe("recomputeDeltas", () => {
+  it("measures each mileage entry from the reading before it", () => {
+    const entries = recomputeDeltas([CYCLE[0], { ...CYCLE[1], reading: 1050 }, CYCLE[2]])
+    assert.deepEqual(entries.map((e) => e.deltaKm), [undefined, 50, 80])
+  })
+
+  it("throws when a reading goes down", () => {
+    assert.throws(() => recomputeDeltas([CYCLE[0], { ...CYCLE[1], reading: 900 }]), UserError)
+  })
+})
+
+describe("diffAppState", () => {
+  it("ignores float noise and reports real drift", () => {
+    const replayed = replayEntries(CYCLE, SETTINGS)
+    const stored = { ...replayed, kmBy: { dana: 115.001, noa: 20 } }
+    assert.deepEqual(diffAppState(stored, replayed), [{ field: "kmBy.noa", stored: 20, replayed: 15 }])
+  })
+})
@@ -0,0 +1,110 @@
+import type { AppState, Entry } from "@/lib/database"
+import { creditKm, kmFor, sameKm, splitKm } from "@/lib/drivers"
+import { UserError } from "@/lib/errors"
+
+// Values that live only on the state row and cannot be derived from the entries log
+export type StateSettings = Pick<
+  AppState,
+  | "groupId"
+  | "vehicleId"
+  | "vehicles"
+  | "version"
+  | "pricePerKm"
+  | "pricing"
+  | "startingOdometer"
+  | "drivers"
+  | "ledger"
+  | "consumption"
+>
+
+export type StateDrift = {
+  field: string
+  stored: number | string | null
+  replayed: number | string | null
+}
+
+// Derives the balances by replaying the entries log, oldest first
+export function replayEntries(entries: Entry[], settings: StateSettings): AppState {
+  const state: AppState = {
+    groupId: settings.groupId,
+    vehicleId: settings.vehicleId,
+    vehicles: settings.vehicles,
+    version: settings.version,
+    pricePerKm: settings.pricePerKm,
+    pricing: settings.pricing,
+    startingOdometer: settings.startingOdometer,
+    lastOdometer: null,
+    kmBy: {},
+    drivers: settings.drivers,
+    ledger: settings.ledger,
+    consumption: settings.consumption,
+    history: [],
+    lastEnteredBy: null,
+  }
+
+  const ordered = entries.slice().sort((a, b) => a.timestamp - b.timestamp)
+  for (const e of ordered) {
+    if (e.type === "reset") {
+      state.startingOdometer = state.lastOdometer ?? state.startingOdometer
+      state.kmBy = {}
+    } else if (e.reading != null) {
+      if (e.type === "init" || state.lastOdometer === null) {
+        state.startingOdometer = e.reading
+      } else if (e.type === "shared" && e.split) {
+        state.kmBy = creditKm(state.kmBy, splitKm(e.reading - state.lastOdometer, e.split))
+      } else if (e.attributedTo) {
+        // Readings are the source of truth, the stored deltaKm is only a cache of them
+        state.kmBy = creditKm(state.kmBy, { [e.attributedTo]: e.reading - state.lastOdometer })
+      }
+      state.lastOdometer = e.reading
+      state.lastEnteredBy = e.enteredBy ?? state.lastEnteredBy
+    }
+    state.history.push(e)
+  }
+
+  return state
+}
+
+// Recomputes each mileage entry's deltaKm from the reading before it, oldest first.
+// Throws when a reading is lower than the one before it.
+export function recomputeDeltas(entries: Entry[]): Entry[] {
+  let lastOdometer: number | null = null
+  return entries
+    .slice()
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((e) => {
+      if (e.reading == null) return e
+      if (lastOdometer !== null && e.reading < lastOdometer) {
+        throw new UserError("mileageDecreased")
+      }
+      const recomputed =
+        (e.type === "entry" || e.type === "shared") && lastOdometer !== null
+          ? { ...e, deltaKm: e.reading - lastOdometer }
+          : e
+      lastOdometer = e.reading
+      return recomputed
+    })
+}
+
+export function diffAppState(stored: AppState, replayed: AppState): StateDrift[] {
+  const driverIds = new Set([...Object.keys(stored.kmBy), ...Object.keys(replayed.kmBy)])
+  const fields: [string, number | string | null, number | string | null][] = [
+    ["startingOdometer", stored.startingOdometer, replayed.startingOdometer],
+    ["lastOdometer", stored.lastOdometer, replayed.lastOdometer],
+    ...Array.from(driverIds, (id): [string, number, number] => [
+      `kmBy.${id}`,
+      kmFor(stored.kmBy, id),
+      kmFor(replayed.kmBy, id),
+    ]),
+    ["lastEnteredBy", stored.lastEnteredBy, replayed.lastEnteredBy],
+  ]
+
+  // Km that differ only by float noise aren't drift
+  return fields
+    .filter(([, storedValue, replayedValue]) =>
+      typeof storedValue === "number" && typeof replayedValue === "number"
+        ? !sameKm(storedValue, replayedValue)
+        : storedValue !== replayedValue,
+    )
+    .map(([field, storedValue, replayedValue]) => ({ field, stored: storedValue, replayed: replayedValue }))
+}
@@ -0,0 +1,311 @@
+import { errorKey, isErrorKey, UserError } from "@/lib/errors"
+import { z } from "zod"
+
+export const accessCodeSchema = z.string().trim().min(1, errorKey("invalidCode")).max(64, errorKey("invalidCode"))
+
+export const newAccessCodeSchema = z.string().trim().min(4, errorKey("accessCodeTooShort")).max(64)
+
+export const driverIdSchema = z.string().min(1, errorKey("unknownDriver"))
+
+export const driverNameSchema = z
+  .string()
+  .trim()
+  .min(1, errorKey("driverNameRequired"))
+  .max(40, errorKey("driverNameTooLong"))
+
+export const vehicleIdSchema = z.string().min(1, errorKey("unknownVehicle"))
+
+export const vehicleNameSchema = z
+  .string()
+  .trim()
+  .min(1, errorKey("vehicleNameRequired"))
+  .max(40, errorKey("vehicleNameTooLong"))
+
+export const inviteCodeSchema = z
+  .string()
+  .trim()
+  .min(1, errorKey("invalidInviteCode"))
+  .max(64, errorKey("invalidInviteCode"))
+
+export const groupNameSchema = z
+  .string()
+  .trim()
+  .min(1, errorKey("groupNameRequired"))
+  .max(40, errorKey("groupNameTooLong"))
+
+export const fillUpSchema = z.object({
+  liters: z
+    .number({ invalid_type_error: errorKey("litersNotNumber") })
+    .finite(errorKey("litersNotNumber"))
+    .positive(errorKey("litersNotPositive"))
+    .max(1000, errorKey("litersTooLarge")),
+  amountPaid: z
+    .number({ invalid_type_error: errorKey("amountNotNumber") })
+    .finite(errorKey("amountNotNumber"))
+    .positive(errorKey("amountNotPositive")),
+  paidBy: driverIdSchema,
+  station: z
+    .string()
+    .trim()
+    .max(60, errorKey("stationTooLong"))
+    .optional()
+    .transform((station) => station || undefined),
+})
+
+export const energyTypeSchema = z.enum(["fuel", "electric", "plugInHybrid"], {
+  errorMap: () => ({ message: errorKey("unknownEnergyType") }),
+})
+
+export const chargeSchema = z.object({
+  kWh: z
+    .number({ invalid_type_error: errorKey("kWhNotNumber") })
+    .finite(errorKey("kWhNotNumber"))
+    .positive(errorKey("kWhNotPositive")),
+  pricePerKwh: z
+    .number({ invalid_type_error: errorKey("pricePerKwhNotNumber") })
+    .finite(errorKey("pricePerKwhNotNumber"))
+    .nonnegative(errorKey("pricePerKwhNegative")),
+  location: z.enum(["home", "public"], { errorMap: () => ({ message: errorKey("pickLocation") }) }),
+  paidBy: z.string().min(1, errorKey("unknownDriver")),
+})
+
+export const paymentSchema = z.object({
+  obligationId: z.string().min(1, errorKey("unknownObligation")),
+  amount: z
+    .number({ invalid_type_error: errorKey("paymentNotNumber") })
+    .finite(errorKey("paymentNotNumber"))
+    .positive(errorKey("paymentNotPositive")),
+})
+
+export const splitSchema = z
+  .record(z.string().min(1, errorKey("unknownDriver")), z.number().finite().nonnegative(errorKey("splitNegative")))
+  .refine((split) => Object.values(split).filter((p) => p > 0).length >= 2, errorKey("splitNeedsTwoDrivers"))
+  .refine(
+    (split) => Math.abs(Object.values(split).reduce((sum, p) => sum + p, 0) - 100) < 0.01,
+    errorKey("splitNot100"),
+  )
+
+export const versionSchema = z.number().int().nonnegative()
+
+export const readingSchema = z
+  .number({ invalid_type_error: errorKey("invalidMileage") })
+  .finite(errorKey("invalidMileage"))
+  .int(errorKey("mileageNotWhole"))
+  .nonnegative(errorKey("invalidMileage"))
+
+export const settingsSchema = z.object({
+  pricePerKm: z
+    .number({ invalid_type_error: errorKey("pricePerKmNotNumber") })
+    .finite(errorKey("pricePerKmNotNumber"))
+    .positive(errorKey("pricePerKmNotPositive")),
+  startingOdometer: z
+    .number({ invalid_type_error: errorKey("startingMileageNotNumber") })
+    .int(errorKey("startingMileageNotWhole"))
+    .nonnegative(errorKey("startingMileageNegative")),
+})
+
+export const effectiveAtSchema = z
+  .number({ invalid_type_error: errorKey("invalidEffectiveDate") })
+  .int(errorKey("invalidEffectiveDate"))
+  .positive(errorKey("invalidEffectiveDate"))
+  .nullable()
+
+export const pricingSchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("perKm") }),
+  z.object({
+    mode: z.literal("consumption"),
+    fuelPricePerLiter: z
+      .number({ invalid_type_error: errorKey("fuelPriceNotNumber") })
+      .finite(errorKey("fuelPriceNotNumber"))
+      .positive(errorKey("fuelPriceNotPositive")),
+    litersPer100Km: z
+      .number({ invalid_type_error: errorKey("consumptionNotNumber") })
+      .finite(errorKey("consumptionNotNumber"))
+      .positive(errorKey("consumptionNotPositive")),
+  }),
+])
+
+export const timestampSchema = z
+  .number({ invalid_type_error: errorKey("invalidDate") })
+  .int(errorKey("invalidDate"))
+  .nonnegative(errorKey("invalidDate"))
+
+export const statsRangeSchema = z
+  .object({ from: timestampSchema.nullable(), to: timestampSchema.nullable() })
+  .refine((r) => r.from === null || r.to === null || r.from <= r.to, errorKey("invalidRange"))
+
+export const notifyDestinationSchema = z.discriminatedUnion(
+  "channel",
+  [
+    z.object({
+      channel: z.literal("whatsapp"),
+      to: z
+        .string()
+        .trim()
+        .regex(/^\+?[\d\s-]{7,20}$/, errorKey("phoneNumber")),
+    }),
+    z.object({
+      channel: z.literal("telegram"),
+      to: z
+        .string()
+        .trim()
+        .regex(/^-?\d{1,20}$/, errorKey("telegramChatId")),
+    }),
+    z.object({ channel: z.literal("email"), to: z.string().trim().email(errorKey("invalidEmail")) }),
+    z.object({
+      channel: z.literal("webhook"),
+      to: z
+        .string()
+        .trim()
+        .url(errorKey("invalidUrl"))
+        .refine((url) => url.startsWith("https://"), errorKey("webhookNotHttps")),
+    }),
+  ],
+  { errorMap: () => ({ message: errorKey("unknownChannel") }) },
+)
+
+const templateLineSchema = z.string().max(200, errorKey("templateLineTooLong"))
+
+export const localeSchema = z.enum(["he", "en"], { errorMap: () => ({ message: errorKey("unknownLanguage") }) })
+
+export const messageSettingsSchema = z.object({
+  locale: localeSchema,
+  timeZone: z
+    .string()
+    .refine((zone) => {
+      try {
+        new Intl.DateTimeFormat("en", { timeZone: zone })
+        return true
+      } catch {
+        return false
+      }
+    }, errorKey("unknownTimeZone"))
+    .optional(),
+  template: z.object({
+    title: templateLineSchema,
+    fillUp: templateLineSchema,
+    station: templateLineSchema,
+    charging: templateLineSchema,
+    totalsHeader: templateLineSchema,
+    driver: templateLineSchema,
+    total: templateLineSchema,
+    odometer: templateLineSchema,
+    transfersHeader: templateLineSchema,
+    transfer: templateLineSchema,
+    nothingToSettle: templateLineSchema,
+  }),
+})
+
+export const entryTypeSchema = z.enum(
+  ["init", "entry", "shared", "reset", "payment", "revert", "removal", "price", "charge"],
+  { errorMap: () => ({ message: errorKey("unknownEntryType") }) },
+)
+
+export const historyFilterSchema = z
+  .object({
+    driver: driverIdSchema.nullable(),
+    types: z.array(entryTypeSchema),
+    from: timestampSchema.nullable(),
+    to: timestampSchema.nullable(),
+  })
+  .refine((f) => f.from === null || f.to === null || f.from <= f.to, errorKey("invalidRange"))
+
+// Inclusive bounds in milliseconds; the page sends the start and end of the user's local days
+const exportBoundSchema = z.string().regex(/^\d+$/, errorKey("invalidDate")).transform(Number).optional()
+
+// Query string of the export route; empty params count as missing
+export const exportQuerySchema = z
+  .object({
+    format: z.enum(["csv", "json"], { errorMap: () => ({ message: errorKey("exportFormat") }) }).default("csv"),
+    kind: z
+      .enum(["entries", "resets"], { errorMap: () => ({ message: errorKey("exportKind") }) })
+      .default("entries"),
+    from: exportBoundSchema,
+    to: exportBoundSchema,
+    driver: driverIdSchema.optional(),
+    vehicle: vehicleIdSchema.optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, errorKey("invalidRange"))
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>
+
+// Database rows come back with nulls where entries leave fields out
+function nullish<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value) => value ?? undefined)
+}
+
+// Just enough of a backup file to tell which format version it is
+export const backupHeaderSchema = z.object(
+  {
+    format: z.literal("fuel-split-backup", { errorMap: () => ({ message: errorKey("notABackup") }) }),
+    version: z.number({ invalid_type_error: errorKey("backupNoVersion") }).int(errorKey("backupNoVersion")),
+  },
+  { invalid_type_error: errorKey("notABackup") },
+)
+
+const backupEntrySchema = z.object({
+  id: z.string().min(1),
+  vehicleId: vehicleIdSchema,
+  type: entryTypeSchema,
+  timestamp: z.number().int(),
+  reading: nullish(z.number()),
+  deltaKm: nullish(z.number()),
+  attributedTo: nullish(z.string()),
+  enteredBy: nullish(z.string()),
+  note: nullish(z.string()),
+  // Stored as JSON documents; restored as they are
+  fillUp: z.any(),
+  charge: z.any(),
+  payment: z.any(),
+  price: z.any(),
+  split: z.any(),
+  edits: z.any(),
+  snapshot: z.any(),
+  removed: z.any(),
+})
+
+export const backupSchema = backupHeaderSchema.extend({
+  createdAt: z.string(),
+  groupId: z.string().min(1),
+  drivers: z.array(z.object({ id: driverIdSchema, name: driverNameSchema, active: z.boolean() })),
+  vehicles: z.array(z.object({ id: vehicleIdSchema, name: vehicleNameSchema, energy: energyTypeSchema })),
+  states: z.array(
+    z.object({
+      vehicleId: vehicleIdSchema,
+      version: versionSchema,
+      pricePerKm: z.number().finite().nonnegative(),
+      pricing: pricingSchema,
+      startingOdometer: readingSchema,
+      lastOdometer: readingSchema.nullable(),
+      kmBy: z.record(z.number().finite()),
+      lastEnteredBy: z.string().nullable(),
+    }),
+  ),
+  entries: z.array(backupEntrySchema),
+  obligations: z.array(
+    z.object({
+      id: z.string().min(1),
+      vehicleId: vehicleIdSchema,
+      resetEntryId: z.string().min(1),
+      from: driverIdSchema,
+      to: driverIdSchema,
+      amount: z.number().finite().positive(),
+      paid: z.number().finite().nonnegative(),
+      createdAt: z.number().int(),
+    }),
+  ),
+  messageSettings: messageSettingsSchema.nullable(),
+})
+
+export type Backup = z.infer<typeof backupSchema>
+
+// Parses untrusted action input, surfacing the first issue as a UserError. Issues without one of
+// our messages, like zod's own, become "invalidInput".
+export function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+  const result = schema.safeParse(input)
+  if (!result.success) {
+    const message = result.error.issues[0]?.message ?? ""
+    throw new UserError(isErrorKey(message) ? message : "invalidInput")
+  }
+  return result.data
+}
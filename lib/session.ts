@@ -0,0 +1,66 @@
+import type { DriverId } from "@/lib/database"
+
+// Uses Web Crypto only, so it runs both in middleware and in server actions
+
+export const SESSION_COOKIE = "fuel-split-session"
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 90 // seconds
+
+type SessionPayload = {
+  user: DriverId
+  exp: number
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured")
+  }
+  return await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  )
+}
+
+export async function signSession(user: DriverId): Promise<string> {
+  const payload: SessionPayload = { user, exp: Date.now() + SESSION_MAX_AGE * 1000 }
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(), new TextEncoder().encode(body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Returns the signed-in user, or null for a missing, tampered or expired token
+export async function verifySession(token: string | undefined): Promise<DriverId | null> {
+  if (!token) return null
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(body),
+    )
+    if (!valid) return null
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload
+    if (typeof payload.exp !== "number" || payload.exp < Date.now()) return null
+    return payload.user
+  } catch {
+    return null
+  }
+}
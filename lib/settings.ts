@@ -0,0 +1,97 @@
+import {
+  addHistoryEntry,
+  getConsumptionPricedScopes,
+  updateAppState,
+  withAppState,
+  type AppState,
+  type DriverId,
+  type GroupId,
+  type Pricing,
+  type Sql,
+} from "@/lib/database"
+import { UserError } from "@/lib/errors"
+import { priceInEffect, type FuelPriceProvider } from "@/lib/fuel-prices"
+import { nowId } from "@/lib/ids"
+import { pricePerKmOf } from "@/lib/pricing"
+
+export type SettingsChange = {
+  pricePerKm: number
+  startingOdometer: number
+  pricing: Pricing
+  effectiveAt: number
+  // Missing for scheduled imports
+  enteredBy?: DriverId
+  note?: string
+}
+
+// A new price can't take effect before the last reset or price change
+export function priceLockedUntil(state: AppState): number {
+  return state.history
+    .filter((e) => e.type === "reset" || e.type === "price")
+    .reduce((latest, e) => Math.max(latest, e.timestamp), 0)
+}
+
+// Saves settings on the locked vehicle state. A price change is logged as a "price" entry
+// timestamped with when it takes effect.
+export async function applySettings(currentState: AppState, change: SettingsChange, db: Sql): Promise<void> {
+  if (change.effectiveAt > Date.now()) {
+    throw new UserError("priceInFuture")
+  }
+  if (change.effectiveAt < priceLockedUntil(currentState)) {
+    throw new UserError("priceBeforeReset")
+  }
+
+  const newState = {
+    ...currentState,
+    pricePerKm: change.pricePerKm,
+    pricing: change.pricing,
+    startingOdometer: currentState.lastOdometer == null ? change.startingOdometer : currentState.startingOdometer,
+  }
+
+  await updateAppState(newState, db)
+  if (change.pricePerKm !== currentState.pricePerKm) {
+    await addHistoryEntry(
+      {
+        id: nowId(),
+        type: "price",
+        timestamp: change.effectiveAt,
+        enteredBy: change.enteredBy,
+        note: change.note,
+        price: { pricePerKm: change.pricePerKm, previous: currentState.pricePerKm },
+      },
+      currentState,
+      db,
+    )
+  }
+}
+
+// Moves every consumption-priced vehicle to the pump price now in effect, through the same
+// path as a manual settings change. Returns how many vehicles changed.
+export async function importFuelPrice(provider: FuelPriceProvider, groupId: GroupId | null): Promise<number> {
+  const now = Date.now()
+  const price = priceInEffect(await provider.fetchPrices(), now, process.env.FUEL_PRICE_GRADE || "95")
+  if (!price) return 0
+
+  let updated = 0
+  for (const scope of await getConsumptionPricedScopes(groupId)) {
+    await withAppState(scope, async (state, db) => {
+      if (state.pricing.mode !== "consumption" || state.pricing.fuelPricePerLiter === price.pricePerLiter) return
+
+      const pricing: Pricing = { ...state.pricing, fuelPricePerLiter: price.pricePerLiter }
+      await applySettings(
+        state,
+        {
+          pricePerKm: pricePerKmOf(pricing, state.pricePerKm),
+          startingOdometer: state.startingOdometer,
+          pricing,
+          // The table may date the price before this cycle's last reset or price change
+          effectiveAt: Math.min(now, Math.max(price.effectiveFrom, priceLockedUntil(state))),
+          note: `Fuel price ${price.pricePerLiter} / L, imported from ${provider.name}`,
+        },
+        db,
+      )
+      updated++
+    })
+  }
+  return updated
+}
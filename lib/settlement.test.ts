@@ -0,0 +1,85 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { Obligation } from "./database"
+import { costShares, netBalances, paidByDriver, settleCosts } from "./settlement"
+
+function sum(values: Record<string, number>): number {
+  return Object.values(values).reduce((total, value) => total + value, 0)
+}
+
+describe("costShares", () => {
+  it("splits what was paid by km", () => {
+    assert.deepEqual(costShares({ dana: 300, noa: 100 }, { dana: 200 }), { dana: 150, noa: 50 })
+  })
+
+  it("gives the rounding remainder to the driver with the most km", () => {
+    const even = costShares({ dana: 10, noa: 10, omer: 10 }, { dana: 100 })
+    assert.equal(Math.round(sum(even) * 100), 10000)
+    assert.deepEqual(even, { dana: 33.34, noa: 33.33, omer: 33.33 })
+
+    const uneven = costShares({ dana: 1, noa: 2, omer: 4 }, { noa: 50 })
+    assert.equal(Math.round(sum(uneven) * 100), 5000)
+    assert.deepEqual(uneven, { dana: 7.14, noa: 14.29, omer: 28.57 })
+
+    const over = costShares({ dana: 1, noa: 1, omer: 1 }, { dana: 0.02 })
+    assert.equal(Math.round(sum(over) * 100), 2)
+  })
+
+  it("leaves out drivers without km", () => {
+    assert.deepEqual(costShares({ dana: 50, noa: 0 }, { noa: 80 }), { dana: 80 })
+  })
+
+  it("keeps each payer's own expense in a cycle without km", () => {
+    assert.deepEqual(costShares({}, { dana: 120, noa: 30 }), { dana: 120, noa: 30 })
+  })
+})
+
+describe("paidByDriver", () => {
+  it("adds the fill-up and charging sessions per payer", () => {
+    const fillUp = { liters: 40, amountPaid: 280, paidBy: "dana" }
+    const charges = [
+      { kWh: 30, pricePerKwh: 0.6, location: "home" as const, paidBy: "noa" },
+      { kWh: 10, pricePerKwh: 1.5, location: "public" as const, paidBy: "dana" },
+    ]
+    assert.deepEqual(paidByDriver(fillUp, charges), { dana: 295, noa: 18 })
+    assert.deepEqual(paidByDriver(null, []), {})
+  })
+})
+
+describe("settleCosts", () => {
+  it("has everyone owe a single payer their share", () => {
+    assert.deepEqual(settleCosts({ dana: 150, noa: 50 }, { dana: 200 }), [{ from: "noa", to: "dana", amount: 50 }])
+  })
+
+  it("pays the largest creditor first with several payers", () => {
+    const shares = { dana: 100, noa: 100, omer: 100 }
+    const paid = { dana: 200, noa: 60, omer: 40 }
+    assert.deepEqual(settleCosts(shares, paid), [
+      { from: "omer", to: "dana", amount: 60 },
+      { from: "noa", to: "dana", amount: 40 },
+    ])
+  })
+
+  it("settles the remainder share to the agora", () => {
+    const paid = { dana: 100 }
+    const transfers = settleCosts(costShares({ dana: 10, noa: 10, omer: 10 }, paid), paid)
+    assert.deepEqual(transfers, [
+      { from: "noa", to: "dana", amount: 33.33 },
+      { from: "omer", to: "dana", amount: 33.33 },
+    ])
+  })
+
+  it("returns nothing when everyone paid their share", () => {
+    assert.deepEqual(settleCosts({ dana: 50, noa: 50 }, { dana: 50, noa: 50 }), [])
+  })
+})
+
+describe("netBalances", () => {
+  it("nets what two drivers owe each other across cycles", () => {
+    const ledger: Obligation[] = [
+      { id: "1", resetEntryId: "r1", vehicleId: "car", from: "noa", to: "dana", amount: 80, paid: 20, createdAt: 1 },
+      { id: "2", resetEntryId: "r2", vehicleId: "car", from: "dana", to: "noa", amount: 25, paid: 0, createdAt: 2 },
+    ]
+    assert.deepEqual(netBalances(ledger), [{ from: "noa", to: "dana", amount: 35 }])
+  })
+})
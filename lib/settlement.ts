@@ -0,0 +1,118 @@
+import type { Charge, DriverId, Entry, FillUp, Obligation, Transfer } from "@/lib/database"
+import { totalKmOf } from "@/lib/drivers"
+
+export function roundAgorot(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+// Charging sessions logged since the last reset
+export function cycleCharges(history: Entry[]): Charge[] {
+  const lastReset = history.findLastIndex((e) => e.type === "reset")
+  return history
+    .slice(lastReset + 1)
+    .filter((e) => e.type === "charge" && e.charge)
+    .map((e) => e.charge!)
+}
+
+export function chargeCost(charge: Charge): number {
+  return roundAgorot(charge.kWh * charge.pricePerKwh)
+}
+
+// What each driver paid for energy this cycle: the fill-up receipt plus charging sessions
+export function paidByDriver(fillUp: FillUp | null, charges: Charge[]): Record<DriverId, number> {
+  const paid: Record<DriverId, number> = {}
+  const payments = charges.map((c) => ({ by: c.paidBy, amount: chargeCost(c) }))
+  if (fillUp) {
+    payments.unshift({ by: fillUp.paidBy, amount: fillUp.amountPaid })
+  }
+  for (const { by, amount } of payments) {
+    paid[by] = roundAgorot((paid[by] ?? 0) + amount)
+  }
+  return paid
+}
+
+// Splits what was actually paid in proportion to the km each driver drove.
+// A cycle without any km is each payer's own expense.
+export function costShares(kmBy: Record<DriverId, number>, paid: Record<DriverId, number>): Record<DriverId, number> {
+  const totalKm = totalKmOf(kmBy)
+  if (totalKm === 0) {
+    return { ...paid }
+  }
+
+  const totalPaid = roundAgorot(Object.values(paid).reduce((sum, amount) => sum + amount, 0))
+  const driven = Object.entries(kmBy).filter(([, km]) => km > 0)
+  const shares: Record<DriverId, number> = Object.fromEntries(
+    driven.map(([id, km]) => [id, roundAgorot((totalPaid * km) / totalKm)]),
+  )
+  // Rounding each share can leave agorot over or short; the driver with the most km takes the
+  // difference so the shares add up to what was paid
+  const [mostKm] = driven.reduce((most, next) => (next[1] > most[1] ? next : most))
+  const rounded = Object.values(shares).reduce((sum, share) => sum + share, 0)
+  shares[mostKm] = roundAgorot(shares[mostKm] + totalPaid - rounded)
+  return shares
+}
+
+// Drivers who paid less than their share pay the ones who paid more, largest amounts first.
+// With a single payer everyone else simply owes the payer their share.
+export function settleCosts(shares: Record<DriverId, number>, paid: Record<DriverId, number>): Transfer[] {
+  const ids = new Set([...Object.keys(shares), ...Object.keys(paid)])
+  const balances = Array.from(ids, (id) => ({ id, owes: roundAgorot((shares[id] ?? 0) - (paid[id] ?? 0)) }))
+  const debtors = balances.filter((b) => b.owes > 0).sort((a, b) => b.owes - a.owes)
+  const creditors = balances
+    .filter((b) => b.owes < 0)
+    .map((b) => ({ id: b.id, owed: -b.owes }))
+    .sort((a, b) => b.owed - a.owed)
+
+  const transfers: Transfer[] = []
+  for (const debtor of debtors) {
+    for (const creditor of creditors) {
+      const amount = roundAgorot(Math.min(debtor.owes, creditor.owed))
+      if (amount <= 0) continue
+      transfers.push({ from: debtor.id, to: creditor.id, amount })
+      debtor.owes = roundAgorot(debtor.owes - amount)
+      creditor.owed = roundAgorot(creditor.owed - amount)
+    }
+  }
+  return transfers
+}
+
+// What a reset settled: the fuel receipt plus charging, or the km estimate for resets
+// recorded before receipts were entered
+export function settledAmount(reset: Entry): number {
+  if (!reset.fillUp && reset.snapshot?.charged == null) {
+    return reset.snapshot?.totalAmount ?? 0
+  }
+  return roundAgorot((reset.fillUp?.amountPaid ?? 0) + (reset.snapshot?.charged ?? 0))
+}
+
+export type ObligationStatus = "outstanding" | "partial" | "settled"
+
+export function remainingOf(obligation: Obligation): number {
+  return Math.max(0, roundAgorot(obligation.amount - obligation.paid))
+}
+
+export function obligationStatus(obligation: Obligation): ObligationStatus {
+  if (remainingOf(obligation) === 0) return "settled"
+  return obligation.paid > 0 ? "partial" : "outstanding"
+}
+
+// Nets what is still owed between every pair of drivers, across all cycles
+export function netBalances(ledger: Obligation[]): Transfer[] {
+  const net = new Map<string, { a: DriverId; b: DriverId; amount: number }>()
+  for (const o of ledger) {
+    const [a, b] = [o.from, o.to].sort()
+    const key = JSON.stringify([a, b])
+    const pair = net.get(key) ?? { a, b, amount: 0 }
+    // Positive means a owes b
+    pair.amount += o.from === a ? remainingOf(o) : -remainingOf(o)
+    net.set(key, pair)
+  }
+
+  return Array.from(net.values())
+    .map(({ a, b, amount }) => ({
+      from: amount > 0 ? a : b,
+      to: amount > 0 ? b : a,
+      amount: roundAgorot(Math.abs(amount)),
+    }))
+    .filter((t) => t.amount > 0)
+}
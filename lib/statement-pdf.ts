@@ -0,0 +1,33 @@
+import { toPng } from "html-to-image"
+import { jsPDF } from "jspdf"
+
+const PAGE_WIDTH_MM = 210
+const PAGE_HEIGHT_MM = 297
+const MARGIN_MM = 12
+
+// One A4 page per statement section. Sections are drawn by the browser and placed as images,
+// since jsPDF's own text can't shape Hebrew or lay out right-to-left. A section taller than a
+// page is scaled down to fit.
+export async function statementPdf(sections: HTMLElement[]): Promise<Blob> {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" })
+  const maxWidth = PAGE_WIDTH_MM - 2 * MARGIN_MM
+  const maxHeight = PAGE_HEIGHT_MM - 2 * MARGIN_MM
+
+  for (const [index, section] of sections.entries()) {
+    const image = await toPng(section, { pixelRatio: 2, backgroundColor: "#ffffff" })
+    const scale = Math.min(maxWidth / section.offsetWidth, maxHeight / section.offsetHeight)
+    const width = section.offsetWidth * scale
+    if (index > 0) pdf.addPage()
+    pdf.addImage(image, "PNG", (PAGE_WIDTH_MM - width) / 2, MARGIN_MM, width, section.offsetHeight * scale)
+  }
+  return pdf.output("blob")
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,122 @@
+import type { Charge, Driver, DriverId, Vehicle, VehicleEntry, VehicleId } from "@/lib/database"
+import { roundKm } from "@/lib/drivers"
+import { priceAt } from "@/lib/pricing"
+import { chargeCost, roundAgorot } from "@/lib/settlement"
+import { kmOfEntry } from "@/lib/stats"
+
+export type StatementData = {
+  drivers: Driver[]
+  vehicles: Vehicle[]
+  // Every entry of the month, oldest first
+  entries: VehicleEntry[]
+  // Every price change of the group, to price the month's km at the rate then in effect
+  priceChanges: VehicleEntry[]
+  currentPrices: Record<VehicleId, number>
+}
+
+// Km credited to the driver by one mileage entry
+export type StatementLine = {
+  timestamp: number
+  vehicleId: VehicleId
+  reading: number | null
+  km: number
+  shared: boolean
+  pricePerKm: number
+  amount: number
+}
+
+// A fill-up or charging session the driver paid for; the page words it in the reader's language
+export type StatementPayment = {
+  timestamp: number
+  vehicleId: VehicleId
+  amount: number
+} & ({ kind: "fuel"; liters: number; station?: string } | { kind: "charge"; kWh: number; location: Charge["location"] })
+
+// The driver's part of a reset settled during the month
+export type StatementSettlement = {
+  timestamp: number
+  vehicleId: VehicleId
+  km: number
+  share: number
+}
+
+export type DriverStatement = {
+  driver: DriverId
+  lines: StatementLine[]
+  payments: StatementPayment[]
+  settlements: StatementSettlement[]
+  totalKm: number
+  // The month's km at the price in effect when each was driven
+  kmCost: number
+  paid: number
+  // What the driver still owes for the month; negative when they paid more than their km cost
+  owed: number
+}
+
+export function driverStatement(data: StatementData, driver: DriverId): DriverStatement {
+  const lines: StatementLine[] = []
+  const payments: StatementPayment[] = []
+  const settlements: StatementSettlement[] = []
+
+  for (const e of data.entries) {
+    const km = kmOfEntry(e)[driver]
+    if (km) {
+      const pricePerKm = priceAt(
+        data.priceChanges.filter((p) => p.vehicleId === e.vehicleId),
+        data.currentPrices[e.vehicleId] ?? 0,
+        e.timestamp,
+      )
+      lines.push({
+        timestamp: e.timestamp,
+        vehicleId: e.vehicleId,
+        reading: e.reading ?? null,
+        km,
+        shared: e.type === "shared",
+        pricePerKm,
+        amount: roundAgorot(km * pricePerKm),
+      })
+    }
+    if (e.type === "reset" && e.fillUp?.paidBy === driver) {
+      payments.push({
+        timestamp: e.timestamp,
+        vehicleId: e.vehicleId,
+        amount: e.fillUp.amountPaid,
+        kind: "fuel",
+        liters: e.fillUp.liters,
+        station: e.fillUp.station,
+      })
+    }
+    if (e.type === "charge" && e.charge?.paidBy === driver) {
+      payments.push({
+        timestamp: e.timestamp,
+        vehicleId: e.vehicleId,
+        amount: chargeCost(e.charge),
+        kind: "charge",
+        kWh: e.charge.kWh,
+        location: e.charge.location,
+      })
+    }
+    if (e.type === "reset" && e.snapshot && (e.snapshot.kmBy[driver] || e.snapshot.shares?.[driver])) {
+      const km = e.snapshot.kmBy[driver] ?? 0
+      settlements.push({
+        timestamp: e.timestamp,
+        vehicleId: e.vehicleId,
+        km,
+        share: e.snapshot.shares?.[driver] ?? roundAgorot(km * e.snapshot.pricePerKm),
+      })
+    }
+  }
+
+  const kmCost = roundAgorot(lines.reduce((sum, l) => sum + l.amount, 0))
+  const paid = roundAgorot(payments.reduce((sum, p) => sum + p.amount, 0))
+  return {
+    driver,
+    lines,
+    payments,
+    settlements,
+    totalKm: roundKm(lines.reduce((sum, l) => sum + l.km, 0)),
+    kmCost,
+    paid,
+    owed: roundAgorot(kmCost - paid),
+  }
+}
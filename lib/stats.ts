@@ -0,0 +1,111 @@
+import type { Driver, DriverId, Entry, Vehicle, VehicleEntry } from "@/lib/database"
+import { creditKm, roundKm, splitKm } from "@/lib/drivers"
+import { roundAgorot, settledAmount } from "@/lib/settlement"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type StatsData = {
+  drivers: Driver[]
+  vehicles: Vehicle[]
+  entries: VehicleEntry[]
+}
+
+export type StatsPeriod = "week" | "month"
+
+export type PeriodKm = {
+  // Local date of the period's first day, e.g. "2024-05-01"
+  period: string
+  kmBy: Record<DriverId, number>
+}
+
+export type CycleStats = {
+  resetId: string
+  timestamp: number
+  totalKm: number
+  cost: number
+  costPerKm: number | null
+  // Percent of the cycle's km per driver
+  shareBy: Record<DriverId, number>
+}
+
+// Km credited by one mileage entry, as cached in its deltaKm
+export function kmOfEntry(entry: Entry): Record<DriverId, number> {
+  if (!entry.deltaKm) return {}
+  if (entry.type === "shared" && entry.split) return splitKm(entry.deltaKm, entry.split)
+  if (entry.type === "entry" && entry.attributedTo) return { [entry.attributedTo]: entry.deltaKm }
+  return {}
+}
+
+// Weeks start on Sunday, in local time
+function periodStart(timestamp: number, period: StatsPeriod): Date {
+  const date = new Date(timestamp)
+  return period === "month"
+    ? new Date(date.getFullYear(), date.getMonth(), 1)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay())
+}
+
+function nextPeriod(start: Date, period: StatsPeriod): Date {
+  return period === "month"
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7)
+}
+
+function dateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Km per driver in every week or month from the first entry to the last, including empty ones
+export function kmByPeriod(entries: Entry[], period: StatsPeriod): PeriodKm[] {
+  const driven = entries.filter((e) => Object.keys(kmOfEntry(e)).length > 0)
+  if (driven.length === 0) return []
+
+  const totals = new Map<string, Record<DriverId, number>>()
+  for (const e of driven) {
+    const key = dateKey(periodStart(e.timestamp, period))
+    totals.set(key, creditKm(totals.get(key) ?? {}, kmOfEntry(e)))
+  }
+
+  const timestamps = driven.map((e) => e.timestamp)
+  const last = periodStart(Math.max(...timestamps), period)
+  const periods: PeriodKm[] = []
+  for (let start = periodStart(Math.min(...timestamps), period); start <= last; start = nextPeriod(start, period)) {
+    const kmBy = totals.get(dateKey(start)) ?? {}
+    periods.push({
+      period: dateKey(start),
+      kmBy: Object.fromEntries(Object.entries(kmBy).map(([id, km]) => [id, roundKm(km)])),
+    })
+  }
+  return periods
+}
+
+// What each reset settled and how the cycle's km were shared, oldest first
+export function cycleStats(entries: Entry[]): CycleStats[] {
+  return entries
+    .filter((e) => e.type === "reset" && e.snapshot)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((e) => {
+      const { kmBy, totalKm } = e.snapshot!
+      const cost = settledAmount(e)
+      return {
+        resetId: e.id,
+        timestamp: e.timestamp,
+        totalKm: roundKm(totalKm),
+        cost,
+        costPerKm: totalKm > 0 ? roundAgorot(cost / totalKm) : null,
+        shareBy: Object.fromEntries(
+          Object.entries(kmBy).map(([id, km]) => [id, totalKm > 0 ? Math.round((km / totalKm) * 1000) / 10 : 0]),
+        ),
+      }
+    })
+}
+
+// Average gap between resets that came with a fuel receipt, or null with fewer than two
+export function averageDaysBetweenFillUps(entries: Entry[]): number | null {
+  const fillUps = entries
+    .filter((e) => e.type === "reset" && e.fillUp)
+    .map((e) => e.timestamp)
+    .sort((a, b) => a - b)
+  if (fillUps.length < 2) return null
+  return Math.round(((fillUps[fillUps.length - 1] - fillUps[0]) / (fillUps.length - 1) / DAY_MS) * 10) / 10
+}
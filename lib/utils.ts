@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A button in a row of choices, highlighted when it's the selected one
+export function toggleClass(selected: boolean) {
+  return cn(
+    "border-0",
+    selected ? "bg-purple-600 text-white hover:bg-purple-500" : "bg-zinc-800 text-zinc-100 hover:bg-zinc-700",
+  )
+}
+
+// Date inputs are local days; both ends are included
+export function dayBound(date: string, end: boolean): number | null {
+  return date ? new Date(`${date}T${end ? "23:59:59.999" : "00:00"}`).getTime() : null
+}
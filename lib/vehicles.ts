@@ -0,0 +1,5 @@
+import type { Vehicle, VehicleId } from "@/lib/database"
+
+export function vehicleName(vehicles: Vehicle[], id: VehicleId): string {
+  return vehicles.find((v) => v.id === id)?.name ?? id
+}
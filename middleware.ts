@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SESSION_COOKIE, verifySession } from "@/lib/session"
+
+// The price import route checks CRON_SECRET itself
+const PUBLIC_PATHS = ["/login", "/join", "/api/fuel-prices"]
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next()
+  }
+
+  const user = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!user) {
+    return NextResponse.redirect(new URL("/login", request.url))
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  // Everything except build assets, the PWA manifest and public images
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|manifest.webmanifest|.*\\.(?:png|jpg|svg)$).*)"],
+}
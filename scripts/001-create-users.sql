@@ -0,0 +1,13 @@
+-- Access codes for the drivers, hashed with pgcrypto's bcrypt.
+-- Replace the placeholder codes before running; the plain codes are never stored.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS fuel_split_users (
+  name TEXT PRIMARY KEY,
+  code_hash TEXT NOT NULL
+);
+
+INSERT INTO fuel_split_users (name, code_hash) VALUES
+  ('Amit', crypt('<amit-code>', gen_salt('bf'))),
+  ('John', crypt('<john-code>', gen_salt('bf')))
+ON CONFLICT (name) DO UPDATE SET code_hash = EXCLUDED.code_hash;
@@ -0,0 +1,20 @@
+-- Any number of drivers. Existing names become the driver ids, so history rows,
+-- reset snapshots and session cookies that reference "Amit"/"John" stay valid.
+CREATE TABLE IF NOT EXISTS fuel_split_drivers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO fuel_split_drivers (id, name, code_hash)
+SELECT name, name, code_hash FROM fuel_split_users
+ON CONFLICT (id) DO NOTHING;
+
+DROP TABLE IF EXISTS fuel_split_users;
+
+-- Per-driver km for the current cycle, keyed by driver id
+ALTER TABLE fuel_split_state ADD COLUMN IF NOT EXISTS km_by JSONB NOT NULL DEFAULT '{}'::jsonb;
+UPDATE fuel_split_state SET km_by = jsonb_build_object('Amit', amit_km, 'John', john_km);
+ALTER TABLE fuel_split_state DROP COLUMN IF EXISTS amit_km, DROP COLUMN IF EXISTS john_km;
@@ -0,0 +1,20 @@
+-- Several cars per deployment. Each vehicle gets its own state row and its own
+-- entries; everything recorded so far belongs to the default vehicle.
+CREATE TABLE IF NOT EXISTS fuel_split_vehicles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO fuel_split_vehicles (id, name) VALUES ('car', 'Car')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE fuel_split_state ADD COLUMN IF NOT EXISTS vehicle_id TEXT REFERENCES fuel_split_vehicles(id);
+UPDATE fuel_split_state SET vehicle_id = 'car' WHERE vehicle_id IS NULL;
+ALTER TABLE fuel_split_state ALTER COLUMN vehicle_id SET NOT NULL;
+
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS vehicle_id TEXT REFERENCES fuel_split_vehicles(id);
+UPDATE fuel_split_entries SET vehicle_id = 'car' WHERE vehicle_id IS NULL;
+ALTER TABLE fuel_split_entries ALTER COLUMN vehicle_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS fuel_split_entries_vehicle_idx ON fuel_split_entries (vehicle_id, timestamp);
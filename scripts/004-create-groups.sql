@@ -0,0 +1,37 @@
+-- Households sharing one deployment. Drivers, vehicles, state and entries all
+-- belong to a group; everything recorded so far belongs to the first one.
+CREATE TABLE IF NOT EXISTS fuel_split_groups (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO fuel_split_groups (id, name) VALUES ('family', 'Family')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE fuel_split_drivers ADD COLUMN IF NOT EXISTS group_id TEXT REFERENCES fuel_split_groups(id);
+UPDATE fuel_split_drivers SET group_id = 'family' WHERE group_id IS NULL;
+ALTER TABLE fuel_split_drivers ALTER COLUMN group_id SET NOT NULL;
+
+ALTER TABLE fuel_split_vehicles ADD COLUMN IF NOT EXISTS group_id TEXT REFERENCES fuel_split_groups(id);
+UPDATE fuel_split_vehicles SET group_id = 'family' WHERE group_id IS NULL;
+ALTER TABLE fuel_split_vehicles ALTER COLUMN group_id SET NOT NULL;
+
+ALTER TABLE fuel_split_state ADD COLUMN IF NOT EXISTS group_id TEXT REFERENCES fuel_split_groups(id);
+UPDATE fuel_split_state SET group_id = 'family' WHERE group_id IS NULL;
+ALTER TABLE fuel_split_state ALTER COLUMN group_id SET NOT NULL;
+
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS group_id TEXT REFERENCES fuel_split_groups(id);
+UPDATE fuel_split_entries SET group_id = 'family' WHERE group_id IS NULL;
+ALTER TABLE fuel_split_entries ALTER COLUMN group_id SET NOT NULL;
+
+-- Single-use codes that let someone join a group as a new driver
+CREATE TABLE IF NOT EXISTS fuel_split_invites (
+  code TEXT PRIMARY KEY,
+  group_id TEXT NOT NULL REFERENCES fuel_split_groups(id),
+  created_by TEXT REFERENCES fuel_split_drivers(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  used_by TEXT REFERENCES fuel_split_drivers(id)
+);
@@ -0,0 +1,2 @@
+-- Receipt details (liters, amount paid, payer, station) recorded with each reset
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS fill_up_data JSONB;
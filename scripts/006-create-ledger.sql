@@ -0,0 +1,17 @@
+-- Who owes whom after each reset. Obligations stay open across cycles until
+-- payments (logged as "payment" entries) cover them.
+CREATE TABLE IF NOT EXISTS fuel_split_obligations (
+  id TEXT PRIMARY KEY,
+  group_id TEXT NOT NULL REFERENCES fuel_split_groups(id),
+  vehicle_id TEXT NOT NULL REFERENCES fuel_split_vehicles(id),
+  reset_entry_id TEXT NOT NULL,
+  from_driver TEXT NOT NULL REFERENCES fuel_split_drivers(id),
+  to_driver TEXT NOT NULL REFERENCES fuel_split_drivers(id),
+  amount NUMERIC(12, 2) NOT NULL,
+  paid NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS fuel_split_obligations_group_idx ON fuel_split_obligations (group_id, created_at);
+
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS payment_data JSONB;
@@ -0,0 +1,2 @@
+-- Audit trail of edited entries: the values each entry had before every edit
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS edits_data JSONB;
@@ -0,0 +1,2 @@
+-- Shared trips credit their km to several drivers by percentage
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS split_data JSONB;
@@ -0,0 +1,2 @@
+-- Price changes are logged as "price" entries, timestamped with when the new price took effect
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS price_data JSONB;
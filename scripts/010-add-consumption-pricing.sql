@@ -0,0 +1,3 @@
+-- How a vehicle's price per km is set: NULL means typed in directly, otherwise
+-- {"mode":"consumption","fuelPricePerLiter":...,"litersPer100Km":...}
+ALTER TABLE fuel_split_state ADD COLUMN IF NOT EXISTS pricing_data JSONB;
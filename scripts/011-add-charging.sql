@@ -0,0 +1,6 @@
+-- Each vehicle runs on fuel, electricity or both; charging sessions are logged as
+-- "charge" entries and settled together with the next reset
+ALTER TABLE fuel_split_vehicles ADD COLUMN IF NOT EXISTS energy_type TEXT NOT NULL DEFAULT 'fuel'
+  CHECK (energy_type IN ('fuel', 'electric', 'plugInHybrid'));
+
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS charge_data JSONB;
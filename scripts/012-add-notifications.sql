@@ -0,0 +1,3 @@
+-- Where each driver wants reset summaries sent, as { channel, to }. Without one, the
+-- summary is only shared through the wa.me link.
+ALTER TABLE fuel_split_drivers ADD COLUMN IF NOT EXISTS notify_destination JSONB;
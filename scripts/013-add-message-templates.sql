@@ -0,0 +1,3 @@
+-- Each group's reset message: locale, time zone and one template per line, see lib/messages.ts.
+-- Null keeps the English defaults.
+ALTER TABLE fuel_split_groups ADD COLUMN IF NOT EXISTS message_settings JSONB;
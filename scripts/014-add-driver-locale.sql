@@ -0,0 +1,2 @@
+-- Each driver's UI language; null until they pick one, which keeps the browser's last choice
+ALTER TABLE fuel_split_drivers ADD COLUMN IF NOT EXISTS locale TEXT CHECK (locale IN ('he', 'en'));
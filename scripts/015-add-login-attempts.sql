@@ -0,0 +1,7 @@
+-- Failed logins per client address in the current window, to slow down guessing access codes.
+-- A successful login clears the row; see login in app/actions.ts.
+CREATE TABLE IF NOT EXISTS fuel_split_login_attempts (
+  address TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  window_start TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,3 @@
+-- "revert" and "removal" entries keep the details of what they took out, so the history can
+-- describe it in each reader's language
+ALTER TABLE fuel_split_entries ADD COLUMN IF NOT EXISTS removed_data JSONB;